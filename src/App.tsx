@@ -1,14 +1,39 @@
 import { useEffect, useMemo, useState } from 'react'
-import { listNotes, clearNotes, getSetting, setSetting } from './services/storage'
+import { listNotes, clearNotes, getSetting, setSetting, onStorageChanged } from './services/storage'
 import type { Note } from './utils/messaging'
+import { sendToActiveTab } from './utils/rpc'
+import { TARGET_LANGUAGES, isDirectOutputLanguage, languageName } from './utils/languages'
+import NoteCard from './components/NoteCard'
+import StorageView from './components/StorageView'
+import AIBackendSettings from './components/AIBackendSettings'
+import ModelDownloads from './components/ModelDownloads'
+import Diagnostics from './components/Diagnostics'
+import ComparePages from './components/ComparePages'
+import Conversations from './components/Conversations'
+import ExportNotes from './components/ExportNotes'
 import './App.css'
 
+type Tab = 'notes' | 'conversations' | 'compare' | 'storage' | 'backend' | 'diagnostics'
+
+const TABS: Array<{ id: Tab; label: string }> = [
+  { id: 'notes', label: 'Notes' },
+  { id: 'conversations', label: 'Conversations' },
+  { id: 'compare', label: 'Compare' },
+  { id: 'storage', label: 'Storage' },
+  { id: 'backend', label: 'AI Backend' },
+  { id: 'diagnostics', label: 'Diagnostics' },
+]
+
 /**
  * Main Popup Component
  * 
  * This is the popup UI that appears when clicking the extension icon.
  * It displays saved notes, allows searching/filtering, and provides controls
- * for language selection, export, and clearing notes.
+ * for language selection, export (see services/export), and clearing notes. The Conversations tab
+ * lists stored page chats, the Compare tab starts a chat about several open
+ * tabs, the Storage tab shows cache usage and limits, the AI Backend tab
+ * selects the model provider and the Diagnostics tab reports which AI
+ * capabilities are ready.
  */
 export default function App() {
   // State management
@@ -16,6 +41,8 @@ export default function App() {
   const [q, setQ] = useState('')                            // Search query
   const [lang, setLang] = useState('en')                    // Target language for AI operations
   const [showWelcome, setShowWelcome] = useState<boolean | null>(null)  // Welcome banner visibility
+  const [pageError, setPageError] = useState<string | null>(null)       // Why the active tab can't be reached
+  const [tab, setTab] = useState<Tab>('notes')                          // Active popup tab
 
   // Initialize popup on mount
   useEffect(() => {
@@ -47,33 +74,26 @@ export default function App() {
     })()
 
     // Tell content script to show the floating button again (if it was hidden)
-    chrome.tabs.query({ active: true, currentWindow: true }, (tabs) => {
-      const id = tabs[0]?.id
-      if (id) {
-        try {
-          chrome.tabs.sendMessage(id, { type: 'SHOW_FLOAT_AGAIN' }, () => {
-            void chrome.runtime.lastError
-          })
-        } catch { /* no-op */ }
+    sendToActiveTab({ type: 'SHOW_FLOAT_AGAIN' }).then((res) => {
+      if (!res.ok) {
+        console.warn('[Popup] Could not reach page:', res.error.code, res.error.message)
+        setPageError(res.error.code === 'unscriptable'
+          ? 'AI tools are not available on this page.'
+          : `Could not reach this page: ${res.error.message}`)
       }
     })
 
     // Listen for storage changes to sync notes in real-time
-    function onChanged(changes: Record<string, chrome.storage.StorageChange>, area: string) {
-      if (area === 'local' && changes.notes) {
-        const v = (changes.notes.newValue || []) as Note[]
-        setNotes(v.sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0)))
-      }
-    }
-    chrome.storage.onChanged.addListener(onChanged)
-    return () => chrome.storage.onChanged.removeListener(onChanged)
+    return onStorageChanged(async (area) => {
+      if (area === 'notes') setNotes(await listNotes())
+    })
   }, [])
 
-  // Filter notes based on search query (searches in text, snippet, and page title)
+  // Filter notes based on search query (searches in text, snippet, page title and tags)
   const filtered = useMemo(
     () =>
       notes.filter((n) =>
-        (n.text + (n.snippet || '') + n.pageTitle)
+        (n.text + (n.snippet || '') + n.pageTitle + (n.tags || []).map(t => ` #${t}`).join(''))
           .toLowerCase()
           .includes(q.toLowerCase())
       ),
@@ -89,43 +109,6 @@ export default function App() {
     console.log('[Popup] Welcome banner state changed to:', show)
   }
 
-  /**
-   * Export all notes as a JSON file
-   */
-  const exportJSON = () => {
-    const blob = new Blob([JSON.stringify(notes, null, 2)], { type: 'application/json' })
-    const url = URL.createObjectURL(blob)
-    const a = document.createElement('a')
-    a.href = url
-    a.download = `ai-notes-${Date.now()}.json`
-    a.click()
-    URL.revokeObjectURL(url)
-  }
-
-  /**
-   * Simple markdown renderer for list items
-   * Converts markdown lists (- or *) to HTML <ul>/<li> elements
-   */
-  const renderMarkdown = (text: string) => {
-    const lines = text.split('\n')
-    const isMarkdownList = lines.some(line => /^[-*]\s/.test(line.trim()))
-    
-    if (isMarkdownList) {
-      const listItems = lines
-        .filter(line => line.trim())
-        .map(line => {
-          const trimmed = line.trim()
-          if (/^[-*]\s/.test(trimmed)) {
-            return <li key={trimmed}>{trimmed.replace(/^[-*]\s/, '')}</li>
-          }
-          return <li key={trimmed}>{trimmed}</li>
-        })
-      return <ul style={{ margin: 0, paddingLeft: '20px' }}>{listItems}</ul>
-    }
-    
-    return text
-  }
-
   return (
     <div className="popup-root">
       {/* Welcome Banner */}
@@ -171,71 +154,84 @@ export default function App() {
 
       <h3>AI Notes</h3>
 
-      <div className="row">
-        <input
-          placeholder="Search notes…"
-          value={q}
-          onChange={(e) => setQ(e.target.value)}
-        />
-        <select
-          value={lang}
-          onChange={async (e) => {
-            const v = e.target.value
-            setLang(v)
-            await setSetting('targetLang', v)
-            console.log('[Popup] Target language changed to:', v)
-          }}
-        >
-          <option value="en">English</option>
-          <option value="ja">日本語</option>
-          <option value="es">Español</option>
-        </select>
+      {pageError && <div className="page-error">{pageError}</div>}
+
+      <ModelDownloads />
+
+      <div className="tabs">
+        {TABS.map((t) => (
+          <button
+            key={t.id}
+            className={tab === t.id ? 'active' : ''}
+            onClick={() => setTab(t.id)}
+          >
+            {t.label}
+          </button>
+        ))}
       </div>
 
-      {filtered.length > 0 ? (
-        <div className="note-list">
-          {filtered.map((n) => (
-            <div key={n.id} className="note-card">
-              <div className="meta">
-                <a href={n.sourceUrl} target="_blank" rel="noreferrer">
-                  {n.pageTitle}
-                </a>
-                <span> · {new Date(n.createdAt).toLocaleString()}</span>
-              </div>
-              <div className="kind">{n.kind}</div>
-              <div className="text">{renderMarkdown(n.text)}</div>
-              {n.snippet && (
-                <details className="snippet">
-                  <summary>Original snippet</summary>
-                  <pre>{n.snippet}...</pre>
-                </details>
-              )}
+      {tab === 'conversations' && <Conversations />}
+
+      {tab === 'compare' && <ComparePages />}
+
+      {tab === 'storage' && <StorageView />}
+
+      {tab === 'backend' && <AIBackendSettings />}
+
+      {tab === 'diagnostics' && <Diagnostics />}
+
+      {tab === 'notes' && (
+        <>
+          <div className="row">
+            <input
+              placeholder="Search notes…"
+              value={q}
+              onChange={(e) => setQ(e.target.value)}
+            />
+            <select
+              value={lang}
+              onChange={async (e) => {
+                const v = e.target.value
+                setLang(v)
+                await setSetting('targetLang', v)
+                console.log('[Popup] Target language changed to:', v)
+              }}
+            >
+              {TARGET_LANGUAGES.map((code) => (
+                <option key={code} value={code}>
+                  {languageName(code, code)}{isDirectOutputLanguage(code) ? '' : ' (via English)'}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          {filtered.length > 0 ? (
+            <div className="note-list">
+              {filtered.map((n) => (
+                <NoteCard key={n.id} note={n} />
+              ))}
             </div>
-          ))}
-        </div>
-      ) : (
-        <div className="empty">No notes yet. Select text on any page → use the tooltip.</div>
-      )}
+          ) : (
+            <div className="empty">No notes yet. Select text on any page → use the tooltip.</div>
+          )}
 
-      <div className="row">
-        <button 
-          onClick={exportJSON}
-          disabled={notes.length === 0}
-        >
-          Export JSON
-        </button>
-        <button
-          onClick={async () => {
-            if (window.confirm(`Are you sure you want to delete all ${notes.length} note(s)? This action cannot be undone.`)) {
-              await clearNotes()
-              setNotes([])
-            }
-          }}
-          disabled={notes.length === 0}
-        >
-          Clear All
-        </button>
-      </div>
+          {notes.length > 0 && <ExportNotes notes={filtered} />}
+
+          <div className="row">
+            <button
+              onClick={async () => {
+                if (window.confirm(`Are you sure you want to delete all ${notes.length} note(s)? This action cannot be undone.`)) {
+                  await clearNotes()
+                  setNotes([])
+                }
+              }}
+              disabled={notes.length === 0}
+            >
+              Clear All
+            </button>
+          </div>
+        </>
+      )}
     </div>
   )
 }
@@ -0,0 +1,48 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { linkCitations, replaceInText } from '../../content/citations'
+
+const passages = ['First passage about tides.', 'Second passage about the moon.', 'Third passage about "harbours" & ports.']
+
+function cited(html: string): number[] {
+  const template = document.createElement('template')
+  template.innerHTML = html
+  return Array.from(template.content.querySelectorAll('.ai-chat-cite'), el => Number(el.getAttribute('data-passage')))
+}
+
+describe('linkCitations', () => {
+  it('turns references into citation buttons', () => {
+    const html = linkCitations('<p>Tides follow the moon [2] and repeat daily [1, 3].</p>', passages)
+    expect(cited(html)).toEqual([2, 1, 3])
+    expect(html).toContain('title="Third passage about &quot;harbours&quot; &amp; ports."')
+  })
+
+  it('leaves references to missing passages as text', () => {
+    expect(linkCitations('<p>See [4] and [0].</p>', passages)).toBe('<p>See [4] and [0].</p>')
+  })
+
+  it('does not touch code, links or attribute values', () => {
+    const html = [
+      '<p>Use <code>arr[2]</code> here [1].</p>',
+      '<pre><code>x = y[3]\n</code></pre>',
+      '<p><a href="https://example.com/?q=[2]">link [3]</a></p>',
+    ].join('')
+    const result = linkCitations(html, passages)
+    expect(cited(result)).toEqual([1])
+    expect(result).toContain('<code>arr[2]</code>')
+    expect(result).toContain('<pre><code>x = y[3]\n</code></pre>')
+    expect(result).toContain('<a href="https://example.com/?q=[2]">link [3]</a>')
+  })
+
+  it('keeps the surrounding text escaped', () => {
+    const result = linkCitations('<p>a &lt; b &amp;&amp; c [1]</p>', passages)
+    expect(result.startsWith('<p>a &lt; b &amp;&amp; c <button')).toBe(true)
+  })
+})
+
+describe('replaceInText', () => {
+  it('keeps matches the replacer declines', () => {
+    const result = replaceInText('<p>[Tab 1] vs [Tab 9]</p>', /\[(Tab \d+)\]/g, ([, label]) => label === 'Tab 1' ? '<span>Tab 1</span>' : null)
+    expect(result).toBe('<p><span>Tab 1</span> vs [Tab 9]</p>')
+  })
+})
@@ -0,0 +1,144 @@
+// @vitest-environment jsdom
+import { afterEach, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import embedsPage from '../../services/__fixtures__/extract/embeds.html?raw'
+import type { ExtractedDocument } from '../../services/domExtract'
+import { FRAME_CONTENT_REQUEST, FRAME_CONTENT_RESULT, type FrameContentMessage, type FrameContentRequest } from '../../utils/frameContent'
+import { extractPageDocument, listenForFrameContentRequests } from '../../content/frameExtract'
+
+// Runtime messages the content script listens for (frame answers relayed by the background)
+let runtimeListener: (msg: unknown) => void
+const sendMessage = vi.fn()
+
+const widget: ExtractedDocument = {
+  title: 'Tide widget',
+  sections: [{ level: 0, blocks: [{ type: 'paragraph', text: 'The widget shows today: high water at 06:12 and 18:40, low water at 12:25.' }] }],
+  text: '',
+}
+
+function frame(id: string): HTMLIFrameElement {
+  return document.getElementById(id) as HTMLIFrameElement
+}
+
+/**
+ * Answer the cross-origin frame's content request the way its content script
+ * would: with a runtime message carrying the request id
+ */
+function answerCrossOriginFrame(content: ExtractedDocument) {
+  vi.spyOn(frame('cross-origin').contentWindow!, 'postMessage').mockImplementation((message: unknown) => {
+    const { id } = message as FrameContentRequest
+    const answer: FrameContentMessage = { type: FRAME_CONTENT_RESULT, id, content }
+    queueMicrotask(() => runtimeListener(answer))
+  })
+}
+
+beforeAll(() => {
+  vi.stubGlobal('chrome', {
+    runtime: {
+      onMessage: { addListener: (listener: typeof runtimeListener) => { runtimeListener = listener } },
+      sendMessage,
+    },
+  })
+  listenForFrameContentRequests()
+})
+
+beforeEach(() => {
+  const page = new DOMParser().parseFromString(embedsPage, 'text/html')
+  document.title = page.title
+  document.body.innerHTML = page.body.innerHTML
+
+  // jsdom has no layout; give frames a content-sized box
+  vi.spyOn(HTMLIFrameElement.prototype, 'getBoundingClientRect').mockReturnValue({ width: 600, height: 300 } as DOMRect)
+
+  const chart = frame('same-origin').contentDocument!
+  chart.title = 'Tide chart'
+  chart.body.innerHTML =
+    '<h2>Spring tides</h2><p>Spring tides follow the new and full moon by a day or two, with the largest range of the month.</p>'
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  sendMessage.mockReset()
+  vi.useRealTimers()
+  vi.restoreAllMocks()
+})
+
+describe('extractPageDocument', () => {
+  it('reads same-origin frames directly and cross-origin frames over the relay', async () => {
+    answerCrossOriginFrame(widget)
+    const { text } = await extractPageDocument(document)
+
+    const order = [
+      'A tide table lists',
+      '## Spring tides',
+      'Spring tides follow the new and full moon',
+      'The widget shows today',
+      'Always check the table',
+    ].map(snippet => text.indexOf(snippet))
+    expect(order.every(i => i >= 0)).toBe(true)
+    expect(order).toEqual([...order].sort((a, b) => a - b))
+  })
+
+  it('asks cross-origin frames with a window message', async () => {
+    answerCrossOriginFrame(widget)
+    await extractPageDocument(document)
+    expect(frame('cross-origin').contentWindow!.postMessage).toHaveBeenCalledWith(
+      { type: FRAME_CONTENT_REQUEST, id: expect.any(String) },
+      '*'
+    )
+  })
+
+  it('skips frames that do not answer', async () => {
+    vi.useFakeTimers()
+    vi.spyOn(frame('cross-origin').contentWindow!, 'postMessage').mockImplementation(() => {})
+
+    const pending = extractPageDocument(document)
+    await vi.advanceTimersByTimeAsync(2000)
+    const { text } = await pending
+
+    expect(text).toContain('Spring tides follow the new and full moon')
+    expect(text).not.toContain('The widget shows today')
+  })
+
+  it('ignores answers to requests it did not send', async () => {
+    answerCrossOriginFrame(widget)
+    runtimeListener({ type: FRAME_CONTENT_RESULT, id: 'unknown', content: widget })
+    await expect(extractPageDocument(document)).resolves.toBeTruthy()
+  })
+
+  it('skips frames too small to hold content', async () => {
+    vi.spyOn(HTMLIFrameElement.prototype, 'getBoundingClientRect').mockReturnValue({ width: 300, height: 50 } as DOMRect)
+    const postMessage = vi.spyOn(frame('cross-origin').contentWindow!, 'postMessage')
+
+    const { text } = await extractPageDocument(document)
+    expect(text).not.toContain('Spring tides')
+    expect(postMessage).not.toHaveBeenCalled()
+  })
+})
+
+describe('listenForFrameContentRequests', () => {
+  function request(source: Window) {
+    const data: FrameContentRequest = { type: FRAME_CONTENT_REQUEST, id: 'request-1' }
+    window.dispatchEvent(new MessageEvent('message', { data, source }))
+  }
+
+  it('answers content requests from an ancestor frame over runtime messaging', async () => {
+    // Act as a child frame of the same-origin frame's window
+    const parent = frame('same-origin').contentWindow!
+    vi.spyOn(window, 'parent', 'get').mockReturnValue(parent)
+    answerCrossOriginFrame(widget)
+
+    request(parent)
+    await vi.waitFor(() => expect(sendMessage).toHaveBeenCalled())
+
+    const message = sendMessage.mock.calls[0][0] as FrameContentMessage
+    expect(message).toMatchObject({ type: FRAME_CONTENT_RESULT, id: 'request-1' })
+    expect(message.content.title).toBe('Tide tables explained')
+    expect(message.content.text).toContain('A tide table lists')
+  })
+
+  it('ignores requests from other windows', async () => {
+    request(frame('cross-origin').contentWindow!)
+    await new Promise(resolve => setTimeout(resolve, 10))
+    expect(sendMessage).not.toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,73 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest'
+import { loadPageChat } from '../../content/pageChat'
+import type { PageChatHistory, StorageReply, StorageRequest } from '../../services/storage'
+
+const URL_A = 'https://example.com/article'
+
+// Stored chats, as the background would answer storage calls
+const chats = new Map<string, PageChatHistory>()
+
+function stored(contentHash: string): PageChatHistory {
+  return {
+    messages: [
+      { role: 'user', content: 'What is it about?', timestamp: 1 },
+      { role: 'assistant', content: 'Tides.', timestamp: 2 },
+    ],
+    contentHash,
+    pageSummary: 'A page about tides',
+    timestamp: 2,
+  }
+}
+
+function answer(req: StorageRequest): StorageReply {
+  const url = req.args[0] as string
+  if (req.op === 'getPageChatHistory') return { ok: true, data: chats.get(url) }
+  if (req.op === 'clearPageChatHistory') {
+    chats.delete(url)
+    return { ok: true, data: undefined }
+  }
+  return { ok: false, error: `Unexpected ${req.op}` }
+}
+
+beforeAll(() => {
+  vi.stubGlobal('chrome', {
+    runtime: {
+      lastError: undefined,
+      sendMessage: (req: StorageRequest, reply: (r: StorageReply) => void) => reply(answer(req)),
+    },
+  })
+})
+
+afterAll(() => {
+  vi.unstubAllGlobals()
+})
+
+beforeEach(() => {
+  chats.clear()
+})
+
+describe('loadPageChat', () => {
+  it('restores a chat about the same content', async () => {
+    chats.set(URL_A, stored('hash-1'))
+    const history = await loadPageChat(URL_A, 'hash-1')
+    expect(history?.messages).toHaveLength(2)
+  })
+
+  it('clears a chat about other content when the panel opens normally', async () => {
+    chats.set(URL_A, stored('hash-1'))
+    expect(await loadPageChat(URL_A, 'hash-2')).toBeNull()
+    expect(chats.has(URL_A)).toBe(false)
+  })
+
+  it('keeps a chat about other content when resuming it', async () => {
+    chats.set(URL_A, stored('hash-1'))
+    expect(await loadPageChat(URL_A, 'hash-2', true)).toBeNull()
+    expect(chats.get(URL_A)?.messages).toHaveLength(2)
+  })
+
+  it('resumes a chat whose page content is unchanged', async () => {
+    chats.set(URL_A, stored('hash-1'))
+    const history = await loadPageChat(URL_A, 'hash-1', true)
+    expect(history?.contentHash).toBe('hash-1')
+  })
+})
@@ -0,0 +1,148 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { createMessageRouter, dispatchMessage, type MsgHandlers } from '../../content/router'
+import { sendToTab } from '../../utils/rpc'
+import type { MsgResponse } from '../../utils/messaging'
+
+type Listener = ReturnType<typeof createMessageRouter>
+
+/**
+ * Handlers answering every message type; tests override the ones they need
+ */
+function makeHandlers(overrides: Partial<MsgHandlers> = {}): MsgHandlers {
+  return {
+    PING: () => ({ url: 'https://example.com/' }),
+    SUMMARIZE_PAGE: async () => ({ summary: 'page summary' }),
+    SUMMARIZE_SELECTION: (msg) => ({ result: `summary of ${msg.text}` }),
+    EXPLAIN_SELECTION: (msg) => ({ result: `explanation of ${msg.text}` }),
+    TRANSLATE_SELECTION: (msg) => ({ result: `${msg.text} in ${msg.targetLang}` }),
+    TRANSLATE_PAGE: () => ({ blocks: 3 }),
+    GET_PAGE_CONTENT: () => ({ title: 'Title', url: 'https://example.com/', text: 'Text' }),
+    OPEN_COMPARE_CHAT: (msg) => ({ sources: msg.sources.length }),
+    RESUME_PAGE_CHAT: () => ({ messages: 2 }),
+    TOGGLE_PANEL: () => ({ open: true }),
+    SHOW_FLOAT_AGAIN: () => ({ visible: true }),
+    ...overrides,
+  }
+}
+
+/**
+ * Deliver a message to a listener the way chrome.runtime.onMessage does
+ * @returns The listener's return value and the response it sent, if any
+ */
+async function deliver(listener: Listener, msg: unknown) {
+  let response: MsgResponse | undefined
+  const sendResponse = vi.fn((res: MsgResponse) => { response = res })
+  const keptOpen = listener(msg, {}, sendResponse)
+  await vi.waitFor(() => { if (keptOpen) expect(sendResponse).toHaveBeenCalled() })
+  return { keptOpen, response, sendResponse }
+}
+
+describe('createMessageRouter', () => {
+  it('answers a known message with the handler result', async () => {
+    const listener = createMessageRouter(makeHandlers())
+    const { keptOpen, response } = await deliver(listener, { type: 'EXPLAIN_SELECTION', text: 'entropy' })
+    expect(keptOpen).toBe(true)
+    expect(response).toEqual({ ok: true, data: { result: 'explanation of entropy' } })
+  })
+
+  it('waits for async handlers', async () => {
+    const listener = createMessageRouter(makeHandlers())
+    const { response } = await deliver(listener, { type: 'SUMMARIZE_PAGE' })
+    expect(response).toEqual({ ok: true, data: { summary: 'page summary' } })
+  })
+
+  it('ignores unknown message types so other listeners can answer', async () => {
+    const listener = createMessageRouter(makeHandlers())
+    for (const msg of [{ type: 'NOT_A_MESSAGE' }, { type: 'STORAGE_CALL', op: 'listNotes', args: [] }, null, 'PING']) {
+      const { keptOpen, sendResponse } = await deliver(listener, msg)
+      expect(keptOpen).toBe(false)
+      expect(sendResponse).not.toHaveBeenCalled()
+    }
+  })
+
+  it('reports a thrown error as handler-error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const listener = createMessageRouter(makeHandlers({
+      TRANSLATE_PAGE: () => { throw new Error('No readable text found on this page') },
+    }))
+    const { response } = await deliver(listener, { type: 'TRANSLATE_PAGE', targetLang: 'fr' })
+    expect(response).toEqual({ ok: false, error: { code: 'handler-error', message: 'No readable text found on this page' } })
+  })
+
+  it('reports a rejected promise as handler-error', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const listener = createMessageRouter(makeHandlers({
+      SUMMARIZE_PAGE: () => Promise.reject('model unavailable'),
+    }))
+    const { response } = await deliver(listener, { type: 'SUMMARIZE_PAGE' })
+    expect(response).toEqual({ ok: false, error: { code: 'handler-error', message: 'model unavailable' } })
+  })
+
+  it('leaves messages the frame does not accept unanswered', async () => {
+    const listener = createMessageRouter(makeHandlers(), { accepts: (msg) => msg.type !== 'TOGGLE_PANEL' })
+    expect((await deliver(listener, { type: 'TOGGLE_PANEL' })).keptOpen).toBe(false)
+    expect((await deliver(listener, { type: 'PING' })).response).toEqual({ ok: true, data: { url: 'https://example.com/' } })
+  })
+})
+
+describe('dispatchMessage', () => {
+  it('wraps the result in a MsgResponse envelope', async () => {
+    await expect(dispatchMessage(makeHandlers(), { type: 'TOGGLE_PANEL' })).resolves.toEqual({ ok: true, data: { open: true } })
+  })
+})
+
+/**
+ * A chrome.runtime / chrome.tabs stand-in delivering tab messages to the
+ * listeners registered in the "content script"
+ */
+function mockChrome() {
+  const listeners: Listener[] = []
+  const runtime = {
+    lastError: undefined as { message: string } | undefined,
+    onMessage: { addListener: (l: Listener) => listeners.push(l) },
+  }
+  const tabs = {
+    sendMessage: (_tabId: number, msg: unknown, _opts: unknown, callback: (res: unknown) => void) => {
+      for (const listener of listeners) {
+        if (listener(msg, {}, (res) => callback(res))) return
+      }
+      runtime.lastError = { message: 'Could not establish connection. Receiving end does not exist.' }
+      callback(undefined)
+      runtime.lastError = undefined
+    },
+  }
+  vi.stubGlobal('chrome', { runtime, tabs })
+  return runtime
+}
+
+describe('sendToTab through the router', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('delivers typed responses', async () => {
+    mockChrome().onMessage.addListener(createMessageRouter(makeHandlers()))
+    const res = await sendToTab(1, { type: 'TRANSLATE_SELECTION', targetLang: 'ja', text: 'hello' })
+    expect(res).toEqual({ ok: true, data: { result: 'hello in ja' } })
+  })
+
+  it('passes handler errors through to the sender', async () => {
+    mockChrome().onMessage.addListener(createMessageRouter(makeHandlers({
+      SUMMARIZE_SELECTION: () => { throw new Error('Nothing selected') },
+    })))
+    const res = await sendToTab(1, { type: 'SUMMARIZE_SELECTION' })
+    expect(res).toEqual({ ok: false, error: { code: 'handler-error', message: 'Nothing selected' } })
+  })
+
+  it('reports no-receiver when no frame accepts the message', async () => {
+    mockChrome().onMessage.addListener(createMessageRouter(makeHandlers(), { accepts: () => false }))
+    const res = await sendToTab(1, { type: 'PING' }, { inject: false })
+    expect(res.ok).toBe(false)
+    expect(!res.ok && res.error.code).toBe('no-receiver')
+  })
+})
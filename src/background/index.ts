@@ -5,11 +5,29 @@
  * 1. Context menu creation and click events
  * 2. Keyboard command shortcuts
  * 3. Messages between background and content scripts
+ * 4. Storage calls forwarded from content scripts (IndexedDB is per-origin,
+ *    so notes and caches are only reachable from the extension origin)
+ * 5. Local model server requests relayed from content scripts (pages'
+ *    CSP/CORS rules would block a direct fetch to localhost)
+ * 6. Child frame content relayed to the frame that asked for it (see
+ *    content/frameExtract.ts)
+ * 7. "Compare pages" chats: the content of several tabs gathered for the
+ *    chat opened in one of them (see utils/compareTabs.ts)
+ * 8. Stored page chats resumed from the popup's Conversations tab (see
+ *    utils/resumeChat.ts)
  * 
  * It acts as a coordinator between the user's actions (right-click, shortcuts)
  * and the content script's AI features.
  */
 
+import { handleLocalHttpPort, LOCAL_HTTP_PORT } from '../services/providers/localHttp'
+import { getSetting, handleStorageRequest, isStorageRequest } from '../services/storage'
+import { sendToTab } from '../utils/rpc'
+import { isFrameContentMessage } from '../utils/frameContent'
+import { isCompareTabsRequest, MAX_COMPARE_TABS, MIN_COMPARE_TABS, type CompareTabsReply, type CompareTabsRequest } from '../utils/compareTabs'
+import { isResumeChatRequest, type ResumeChatReply, type ResumeChatRequest } from '../utils/resumeChat'
+import type { CompareSource, MsgOf, MsgResponse, MsgType } from '../utils/messaging'
+
 chrome.runtime.onInstalled.addListener(() => {
     try {
       chrome.contextMenus.create({
@@ -32,37 +50,82 @@ chrome.runtime.onInstalled.addListener(() => {
         title: 'AI: Translate selection',
         contexts: ['selection'],
       })
+      chrome.contextMenus.create({
+        id: 'translate_page',
+        title: 'AI: Translate this page',
+        contexts: ['page'],
+      })
     } catch (e) {
       void 0
     }
   })
   
-  function safeSendMessage(tabId: number, msg: any) {
+  /**
+   * Surface the outcome of an action on the toolbar icon
+   * A failed action shows a "!" badge with the reason in the tooltip.
+   */
+  function reportResult(tabId: number, res: MsgResponse) {
     try {
-      chrome.tabs.sendMessage(tabId, msg, () => {
-        void chrome.runtime.lastError
-      })
+      if (res.ok) {
+        chrome.action.setBadgeText({ tabId, text: '' })
+        chrome.action.setTitle({ tabId, title: 'AI Companion' })
+        return
+      }
+      console.warn(`[Background] Action failed (${res.error.code}):`, res.error.message)
+      chrome.action.setBadgeBackgroundColor({ tabId, color: '#d93025' })
+      chrome.action.setBadgeText({ tabId, text: '!' })
+      chrome.action.setTitle({ tabId, title: `AI Companion — ${res.error.message}` })
     } catch {
+      // Tab may have been closed while the action was running
+    }
+  }
+  
+  async function dispatchToTab<T extends MsgType>(tabId: number, msg: MsgOf<T>, frameId = 0) {
+    const res = await sendToTab(tabId, msg, { frameId })
+    reportResult(tabId, res)
+  }
+  
+  /**
+   * Send a selection action to the frame that was right-clicked
+   * Frames that cannot run the content script (Chrome's PDF viewer) fall back
+   * to the top frame, which works from the selection text the menu reported.
+   */
+  async function dispatchSelection<T extends MsgType>(tabId: number, msg: MsgOf<T>, frameId: number) {
+    let res = await sendToTab(tabId, msg, { frameId })
+    if (!res.ok && frameId !== 0 && (res.error.code === 'no-receiver' || res.error.code === 'unscriptable')) {
+      res = await sendToTab(tabId, msg, { frameId: 0 })
     }
+    reportResult(tabId, res)
   }
   
-  chrome.contextMenus.onClicked.addListener((info, tab) => {
+  chrome.contextMenus.onClicked.addListener(async (info, tab) => {
     const tabId = tab?.id
     if (!tabId) return
   
+    // Selection lives in the frame that was right-clicked
+    const frameId = info.frameId ?? 0
+    const text = info.selectionText
+  
     switch (info.menuItemId) {
       case 'summarize_page':
-        safeSendMessage(tabId, { type: 'SUMMARIZE_PAGE' })
+        await dispatchToTab(tabId, { type: 'SUMMARIZE_PAGE' })
         break
       case 'summarize_selection':
-        safeSendMessage(tabId, { type: 'SUMMARIZE_SELECTION' })
+        await dispatchSelection(tabId, { type: 'SUMMARIZE_SELECTION', text }, frameId)
         break
       case 'explain_selection':
-        safeSendMessage(tabId, { type: 'EXPLAIN_SELECTION' })
+        await dispatchSelection(tabId, { type: 'EXPLAIN_SELECTION', text }, frameId)
+        break
+      case 'translate_selection': {
+        const targetLang = (await getSetting<string>('targetLang')) || 'en'
+        await dispatchSelection(tabId, { type: 'TRANSLATE_SELECTION', targetLang, text }, frameId)
         break
-      case 'translate_selection':
-        safeSendMessage(tabId, { type: 'TRANSLATE_SELECTION', targetLang: 'en' })
+      }
+      case 'translate_page': {
+        const targetLang = (await getSetting<string>('targetLang')) || 'en'
+        await dispatchToTab(tabId, { type: 'TRANSLATE_PAGE', targetLang })
         break
+      }
     }
   })
   
@@ -70,9 +133,118 @@ chrome.runtime.onInstalled.addListener(() => {
     if (command !== 'toggle-panel') return
     try {
       const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
-      if (tab?.id) safeSendMessage(tab.id, { type: 'TOGGLE_PANEL' })
+      if (tab?.id) await dispatchToTab(tab.id, { type: 'TOGGLE_PANEL' })
     } catch {
       // ignore
     }
   })
-  
\ No newline at end of file
+  
+  chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+    if (!isStorageRequest(msg)) return false
+    handleStorageRequest(msg).then(sendResponse)
+    return true  // Keep the channel open for the async reply
+  })
+
+  // Broadcast to the sender's tab; the requesting frame matches the id
+  chrome.runtime.onMessage.addListener((msg, sender) => {
+    if (!isFrameContentMessage(msg) || sender.tab?.id === undefined) return false
+    chrome.tabs.sendMessage(sender.tab.id, msg).catch(() => {
+      // Requesting frame navigated away
+    })
+    return false
+  })
+
+  /**
+   * Read the chosen tabs and open the comparison chat in the host tab
+   * Tabs are labeled "Tab 1", "Tab 2", ... in the order they were chosen.
+   */
+  async function startCompareChat(req: CompareTabsRequest): Promise<CompareTabsReply> {
+    const tabIds = [...new Set(req.tabIds)]
+    if (tabIds.length < MIN_COMPARE_TABS || tabIds.length > MAX_COMPARE_TABS) {
+      return { ok: false, error: `Choose ${MIN_COMPARE_TABS} to ${MAX_COMPARE_TABS} tabs to compare` }
+    }
+
+    const results = await Promise.all(tabIds.map(tabId => sendToTab(tabId, { type: 'GET_PAGE_CONTENT' })))
+    const sources: CompareSource[] = []
+    for (const [i, res] of results.entries()) {
+      if (!res.ok) {
+        const tab = await chrome.tabs.get(tabIds[i]).catch(() => null)
+        return { ok: false, error: `Could not read "${tab?.title || `tab ${i + 1}`}": ${res.error.message}` }
+      }
+      sources.push({ tabId: tabIds[i], label: `Tab ${i + 1}`, ...res.data })
+    }
+    console.log('[Background] Comparing', sources.map(s => `${s.label}: ${s.url} (${s.text.length} chars)`))
+
+    const res = await sendToTab(req.hostTabId, { type: 'OPEN_COMPARE_CHAT', sources })
+    reportResult(req.hostTabId, res)
+    return res.ok ? { ok: true, sources: res.data.sources } : { ok: false, error: res.error.message }
+  }
+
+  chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+    if (!isCompareTabsRequest(msg)) return false
+    startCompareChat(msg).then(sendResponse)
+    return true  // Keep the channel open for the async reply
+  })
+
+  // How long a resumed page may take to load before the chat is restored anyway
+  const TAB_LOAD_TIMEOUT_MS = 30_000
+
+  /**
+   * Resolve once the tab has finished loading (or after TAB_LOAD_TIMEOUT_MS)
+   */
+  function waitForTabLoad(tabId: number): Promise<void> {
+    return new Promise((resolve) => {
+      const listener = (id: number, info: chrome.tabs.OnUpdatedInfo) => {
+        if (id === tabId && info.status === 'complete') done()
+      }
+      const timer = setTimeout(() => done(), TAB_LOAD_TIMEOUT_MS)
+      function done() {
+        chrome.tabs.onUpdated.removeListener(listener)
+        clearTimeout(timer)
+        resolve()
+      }
+      chrome.tabs.onUpdated.addListener(listener)
+      chrome.tabs.get(tabId)
+        .then(tab => { if (tab.status === 'complete') done() })
+        .catch(() => done())
+    })
+  }
+
+  /**
+   * Show a stored page chat: focus the tab showing the page, or open it,
+   * and restore the conversation in its side panel
+   */
+  async function resumePageChat(req: ResumeChatRequest): Promise<ResumeChatReply> {
+    const tabs = await chrome.tabs.query({})
+    let tab = tabs.find(t => t.url === req.url)
+    if (tab?.id !== undefined) {
+      await chrome.tabs.update(tab.id, { active: true })
+      await chrome.windows.update(tab.windowId, { focused: true })
+    } else {
+      tab = await chrome.tabs.create({ url: req.url })
+    }
+    if (tab.id === undefined) {
+      return { ok: false, error: 'Could not open the page' }
+    }
+
+    await waitForTabLoad(tab.id)
+    const res = await sendToTab(tab.id, { type: 'RESUME_PAGE_CHAT' })
+    reportResult(tab.id, res)
+    if (!res.ok) return { ok: false, error: res.error.message }
+    if (res.data.messages === 0) {
+      return { ok: false, error: 'The page has changed since this conversation, so it could not be resumed (it is kept in Conversations)' }
+    }
+    return { ok: true, messages: res.data.messages }
+  }
+
+  chrome.runtime.onMessage.addListener((msg, _sender, sendResponse) => {
+    if (!isResumeChatRequest(msg)) return false
+    resumePageChat(msg)
+      .catch((e): ResumeChatReply => ({ ok: false, error: e instanceof Error ? e.message : String(e) }))
+      .then(sendResponse)
+    return true  // Keep the channel open for the async reply
+  })
+
+  chrome.runtime.onConnect.addListener((port) => {
+    if (port.name === LOCAL_HTTP_PORT) handleLocalHttpPort(port)
+  })
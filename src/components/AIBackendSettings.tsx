@@ -0,0 +1,136 @@
+import { useEffect, useState } from 'react'
+import {
+  getLocalHttpConfig,
+  PROVIDER_IDS,
+  PROVIDER_LABELS,
+  type LocalHttpConfig,
+  type ProviderId,
+} from '../services/providers'
+import { streamChatCompletion } from '../services/providers/localHttp'
+import { getSetting, setSetting } from '../services/storage'
+
+/**
+ * AI backend settings
+ *
+ * Selects the provider used by the content script ('aiProvider') and
+ * configures the OpenAI-compatible local server ('localHttp') that answers
+ * when Chrome's built-in AI is unavailable. Pages pick up changes
+ * immediately.
+ */
+export default function AIBackendSettings() {
+  const [provider, setProvider] = useState<ProviderId>('chrome')    // Selected backend
+  const [config, setConfig] = useState<LocalHttpConfig | null>(null) // Local server settings
+  const [status, setStatus] = useState('')                          // Result of the connection test
+  const [testing, setTesting] = useState(false)
+
+  useEffect(() => {
+    (async () => {
+      const saved = await getSetting<ProviderId>('aiProvider')
+      if (saved && PROVIDER_IDS.includes(saved)) setProvider(saved)
+      setConfig(await getLocalHttpConfig())
+    })()
+  }, [])
+
+  const updateProvider = async (id: ProviderId) => {
+    setProvider(id)
+    await setSetting('aiProvider', id)
+    console.log('[Popup] AI provider changed to:', id)
+  }
+
+  const updateConfig = async (patch: Partial<LocalHttpConfig>) => {
+    if (!config) return
+    const next = { ...config, ...patch }
+    setConfig(next)
+    setStatus('')
+    await setSetting('localHttp', next)
+  }
+
+  /**
+   * Send a one-line prompt to the local server and report the outcome
+   */
+  const testConnection = async () => {
+    if (!config) return
+    setTesting(true)
+    setStatus('Connecting…')
+    const controller = new AbortController()
+    const timer = setTimeout(() => controller.abort(), 30000)
+    try {
+      let reply = ''
+      for await (const chunk of streamChatCompletion(config, [
+        { role: 'user', content: 'Reply with the single word: OK' },
+      ], { signal: controller.signal, temperature: 0 })) {
+        reply += chunk
+      }
+      setStatus(`✓ Connected. Model replied: ${reply.trim().slice(0, 60) || '(empty)'}`)
+    } catch (e) {
+      const message = controller.signal.aborted ? 'timed out' : e instanceof Error ? e.message : String(e)
+      setStatus(`✗ ${message}`)
+    } finally {
+      clearTimeout(timer)
+      setTesting(false)
+    }
+  }
+
+  return (
+    <div className="backend-settings">
+      <label>
+        AI backend
+        <select value={provider} onChange={(e) => updateProvider(e.target.value as ProviderId)}>
+          {PROVIDER_IDS.map((id) => (
+            <option key={id} value={id}>{PROVIDER_LABELS[id]}</option>
+          ))}
+        </select>
+      </label>
+
+      {provider === 'local-http' && config && (
+        <>
+          <p className="backend-hint">
+            Used for any feature Chrome's built-in AI reports as unavailable.
+            Point it at an OpenAI-compatible server such as Ollama or llama.cpp.
+          </p>
+          <label>
+            Server URL
+            <input
+              value={config.endpoint}
+              placeholder="http://localhost:11434"
+              onChange={(e) => updateConfig({ endpoint: e.target.value })}
+            />
+          </label>
+          <label>
+            Model
+            <input
+              value={config.model}
+              placeholder="llama3.2"
+              onChange={(e) => updateConfig({ model: e.target.value })}
+            />
+          </label>
+          <label>
+            API key (optional)
+            <input
+              type="password"
+              value={config.apiKey || ''}
+              onChange={(e) => updateConfig({ apiKey: e.target.value || undefined })}
+            />
+          </label>
+          <label>
+            Context window (tokens)
+            <input
+              type="number"
+              min={512}
+              value={config.contextTokens}
+              onChange={(e) => updateConfig({ contextTokens: Math.max(512, Number(e.target.value) || 512) })}
+            />
+          </label>
+
+          {status && <div className="backend-status">{status}</div>}
+
+          <div className="row">
+            <button onClick={testConnection} disabled={testing || !config.endpoint || !config.model}>
+              Test connection
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,92 @@
+import { useEffect, useState } from 'react'
+import {
+  COMPARE_TABS_REQUEST,
+  MAX_COMPARE_TABS,
+  MIN_COMPARE_TABS,
+} from '../utils/compareTabs'
+import { sendToBackground } from '../utils/rpc'
+
+/**
+ * Tabs the content script can read (web pages and local files)
+ */
+function isComparable(tab: chrome.tabs.Tab): boolean {
+  return tab.id !== undefined && /^(https?|file):/.test(tab.url || '')
+}
+
+/**
+ * "Compare pages" picker
+ *
+ * Lists the window's open pages; the chosen ones are read by the background
+ * and discussed in one chat in the active tab's side panel, with answers
+ * citing the tab each claim comes from. Tabs are labeled in the order they
+ * were picked.
+ */
+export default function ComparePages() {
+  const [tabs, setTabs] = useState<chrome.tabs.Tab[]>([])
+  const [picked, setPicked] = useState<number[]>([])          // Tab ids, in label order
+  const [activeTabId, setActiveTabId] = useState<number | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [status, setStatus] = useState('')
+
+  useEffect(() => {
+    chrome.tabs.query({ currentWindow: true }).then((all) => {
+      const comparable = all.filter(isComparable)
+      setTabs(comparable)
+      const active = all.find(t => t.active)
+      setActiveTabId(active?.id ?? null)
+      if (active?.id !== undefined && comparable.includes(active)) setPicked([active.id])
+    })
+  }, [])
+
+  const toggle = (tabId: number) => {
+    setPicked(prev => prev.includes(tabId) ? prev.filter(id => id !== tabId) : [...prev, tabId])
+  }
+
+  const start = async () => {
+    if (activeTabId === null) return
+    setBusy(true)
+    setStatus('Reading tabs…')
+    const res = await sendToBackground({ type: COMPARE_TABS_REQUEST, tabIds: picked, hostTabId: activeTabId })
+    setBusy(false)
+    if (!res.ok) {
+      setStatus(`⚠️ ${res.error.message}`)
+    } else if (!res.data.ok) {
+      setStatus(`⚠️ ${res.data.error}`)
+    } else {
+      // The chat is in the page's side panel
+      window.close()
+    }
+  }
+
+  const canStart = picked.length >= MIN_COMPARE_TABS && picked.length <= MAX_COMPARE_TABS && activeTabId !== null && !busy
+
+  return (
+    <div className="compare-pages">
+      <p className="compare-hint">
+        Pick {MIN_COMPARE_TABS}–{MAX_COMPARE_TABS} tabs to chat about side by side. The chat opens in this tab's side panel.
+      </p>
+
+      {tabs.length === 0 && <div className="empty">No open web pages in this window.</div>}
+
+      {tabs.map((t) => {
+        const index = picked.indexOf(t.id!)
+        const full = index === -1 && picked.length >= MAX_COMPARE_TABS
+        return (
+          <label key={t.id} className={`compare-tab ${index !== -1 ? 'picked' : ''}`} title={t.url}>
+            <input type="checkbox" checked={index !== -1} disabled={full || busy} onChange={() => toggle(t.id!)} />
+            <span className="compare-tab-label">{index !== -1 ? `Tab ${index + 1}` : ''}</span>
+            <span className="compare-tab-title">{t.title || t.url}</span>
+          </label>
+        )
+      })}
+
+      {status && <div className="compare-status">{status}</div>}
+
+      <div className="row">
+        <button onClick={start} disabled={!canStart}>
+          {picked.length > 0 ? `Compare ${picked.length} tabs` : 'Compare'}
+        </button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,158 @@
+import { useEffect, useMemo, useState } from 'react'
+import { clearPageChatHistory, listPageChats, onStorageChanged } from '../services/storage'
+import type { PageChatHistoryRecord } from '../services/db'
+import { chatFileName, chatToMarkdown, type ChatTranscript } from '../utils/chatMarkdown'
+import { RESUME_CHAT_REQUEST } from '../utils/resumeChat'
+import { sendToBackground } from '../utils/rpc'
+
+// Characters shown on each side of a search match
+const SNIPPET_RADIUS = 60
+
+function transcriptOf(chat: PageChatHistoryRecord): ChatTranscript {
+  return { title: chat.pageTitle || chat.url, url: chat.url, timestamp: chat.timestamp, messages: chat.messages }
+}
+
+/**
+ * Text around the first message matching the query, or null when the
+ * match is in the title or URL only
+ */
+function matchSnippet(chat: PageChatHistoryRecord, query: string): string | null {
+  for (const m of chat.messages) {
+    const at = m.content.toLowerCase().indexOf(query)
+    if (at === -1) continue
+    const start = Math.max(0, at - SNIPPET_RADIUS)
+    const end = Math.min(m.content.length, at + query.length + SNIPPET_RADIUS)
+    return `${start > 0 ? '…' : ''}${m.content.slice(start, end)}${end < m.content.length ? '…' : ''}`
+  }
+  return null
+}
+
+/**
+ * Conversation library
+ *
+ * Lists every stored page chat, most recent first, with search across the
+ * page title, URL and message text. Opening a chat shows its transcript
+ * read-only, with delete, Markdown export and "Open & resume", which
+ * continues the chat in the page's side panel.
+ */
+export default function Conversations() {
+  const [chats, setChats] = useState<PageChatHistoryRecord[]>([])
+  const [q, setQ] = useState('')                                   // Search query
+  const [openUrl, setOpenUrl] = useState<string | null>(null)      // Chat shown as a transcript
+  const [status, setStatus] = useState('')
+
+  useEffect(() => {
+    listPageChats().then(setChats)
+    return onStorageChanged(async (area) => {
+      if (area === 'pageChatHistory') setChats(await listPageChats())
+    })
+  }, [])
+
+  const query = q.trim().toLowerCase()
+  const filtered = useMemo(
+    () => chats
+      .filter(c => c.messages.length > 0)
+      .filter(c => !query
+        || (c.pageTitle || '').toLowerCase().includes(query)
+        || c.url.toLowerCase().includes(query)
+        || c.messages.some(m => m.content.toLowerCase().includes(query))),
+    [chats, query]
+  )
+
+  const open = chats.find(c => c.url === openUrl)
+
+  const remove = async (chat: PageChatHistoryRecord) => {
+    if (!window.confirm(`Delete the conversation about "${chat.pageTitle || chat.url}"? This action cannot be undone.`)) return
+    await clearPageChatHistory(chat.url)
+    setOpenUrl(null)
+  }
+
+  const exportMarkdown = (chat: PageChatHistoryRecord) => {
+    const transcript = transcriptOf(chat)
+    const blob = new Blob([chatToMarkdown(transcript)], { type: 'text/markdown' })
+    const url = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = url
+    a.download = chatFileName(transcript)
+    a.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const resume = async (chat: PageChatHistoryRecord) => {
+    setStatus('Opening page…')
+    const res = await sendToBackground({ type: RESUME_CHAT_REQUEST, url: chat.url })
+    if (!res.ok) {
+      setStatus(`⚠️ ${res.error.message}`)
+    } else if (!res.data.ok) {
+      setStatus(`⚠️ ${res.data.error}`)
+    } else {
+      // The chat continues in the page's side panel
+      window.close()
+    }
+  }
+
+  if (open) {
+    return (
+      <div className="conversations">
+        <div className="conversation-header">
+          <button className="conversation-back" onClick={() => { setOpenUrl(null); setStatus('') }}>← All conversations</button>
+          <div className="conversation-title">{open.pageTitle || open.url}</div>
+          <a className="conversation-url" href={open.url} target="_blank" rel="noreferrer">{open.url}</a>
+        </div>
+
+        <div className="conversation-transcript">
+          {open.messages.map((m, i) => (
+            <div key={i} className={`conversation-message ${m.role}`}>
+              <div className="conversation-speaker">
+                {m.role === 'user' ? 'You' : 'Assistant'}
+                {m.versions && m.versions.length > 1 && ` · version ${(m.version ?? m.versions.length - 1) + 1}/${m.versions.length}`}
+              </div>
+              <div className="conversation-text">{m.content}</div>
+            </div>
+          ))}
+        </div>
+
+        {status && <div className="conversation-status">{status}</div>}
+
+        <div className="row">
+          <button onClick={() => resume(open)}>Open & resume</button>
+          <button onClick={() => exportMarkdown(open)}>Export Markdown</button>
+          <button onClick={() => remove(open)}>Delete</button>
+        </div>
+      </div>
+    )
+  }
+
+  return (
+    <div className="conversations">
+      <div className="row">
+        <input
+          placeholder="Search conversations…"
+          value={q}
+          onChange={(e) => setQ(e.target.value)}
+        />
+      </div>
+
+      {filtered.length === 0 && (
+        <div className="empty">
+          {query ? 'No conversations match your search.' : 'No conversations yet. Ask a follow-up about a page summary to start one.'}
+        </div>
+      )}
+
+      <div className="conversation-list">
+        {filtered.map((c) => {
+          const snippet = query ? matchSnippet(c, query) : null
+          return (
+            <button key={c.url} className="conversation-item" onClick={() => setOpenUrl(c.url)} title={c.url}>
+              <span className="conversation-title">{c.pageTitle || c.url}</span>
+              <span className="conversation-meta">
+                {new Date(c.timestamp).toLocaleString()} · {c.messages.length} messages
+              </span>
+              {snippet && <span className="conversation-snippet">{snippet}</span>}
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  checkCapability,
+  getCapabilityReport,
+  onModelDownloadProgress,
+  setAIProvider,
+  warmUpCapability,
+  type CapabilityReport,
+  type CapabilityStatus,
+} from '../services/aiService'
+import { loadProviderFromSettings } from '../services/providers'
+import type { AIApiName } from '../services/providers/types'
+import { formatEta } from '../utils/downloadProgress'
+import { isDirectOutputLanguage, languageName } from '../utils/languages'
+
+const API_LABELS: Record<AIApiName, string> = {
+  summarizer: 'Summarizer',
+  translator: 'Translator',
+  languageDetector: 'Language detector',
+  languageModel: 'Prompt (Gemini Nano)',
+}
+
+const STATUS_TEXT: Record<CapabilityStatus['availability'], string> = {
+  available: 'Ready',
+  downloadable: 'Not downloaded',
+  downloading: 'Downloading',
+  unavailable: 'Not supported',
+  missing: 'Not exposed by this browser',
+  error: 'Check failed',
+}
+
+/**
+ * Stable key of a status row
+ */
+function rowKey(s: CapabilityStatus): string {
+  return s.languages ? `${s.api}:${s.languages.source}-${s.languages.target}` : s.api
+}
+
+/**
+ * AI capability diagnostics
+ *
+ * Shows the availability of every model API and translation language pair
+ * for the selected provider, with per-row retry (re-check) and warm-up
+ * (create an instance, which downloads and loads the model).
+ */
+export default function Diagnostics() {
+  const [report, setReport] = useState<CapabilityReport | null>(null)
+  const [busy, setBusy] = useState<Record<string, boolean>>({})   // Rows being checked or warmed up
+
+  const refresh = useCallback(async () => {
+    setAIProvider(await loadProviderFromSettings())
+    setReport(await getCapabilityReport())
+  }, [])
+
+  /**
+   * Replace one row of the report
+   */
+  const updateRow = useCallback((status: CapabilityStatus) => {
+    setReport((prev) => {
+      if (!prev) return prev
+      const key = rowKey(status)
+      const replace = (rows: CapabilityStatus[]) => rows.map(r => rowKey(r) === key ? status : r)
+      return { ...prev, apis: replace(prev.apis), translators: replace(prev.translators) }
+    })
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    // Live progress for downloads started by warm-up
+    return onModelDownloadProgress((event) => {
+      setReport((prev) => {
+        if (!prev) return prev
+        const patch = (rows: CapabilityStatus[]) => rows.map(r =>
+          rowKey(r) === event.key ? { ...r, download: event.status === 'done' ? undefined : event } : r
+        )
+        return { ...prev, apis: patch(prev.apis), translators: patch(prev.translators) }
+      })
+    })
+  }, [refresh])
+
+  const run = async (status: CapabilityStatus, action: 'retry' | 'warm-up') => {
+    const key = rowKey(status)
+    setBusy(b => ({ ...b, [key]: true }))
+    try {
+      updateRow(action === 'retry'
+        ? await checkCapability(status.api, status.languages)
+        : await warmUpCapability(status.api, status.languages))
+    } finally {
+      setBusy(b => ({ ...b, [key]: false }))
+    }
+  }
+
+  const renderRow = (s: CapabilityStatus) => {
+    const key = rowKey(s)
+    const label = s.languages ? `${s.languages.source} → ${s.languages.target}` : API_LABELS[s.api]
+    const canWarmUp = s.availability === 'available' || s.availability === 'downloadable' || s.availability === 'downloading'
+    return (
+      <div key={key} className="diag-row">
+        <div className="diag-row-main">
+          <span className="diag-name">{label}</span>
+          <span className={`diag-status ${s.availability}`}>{STATUS_TEXT[s.availability]}</span>
+          <button onClick={() => run(s, 'retry')} disabled={busy[key]}>Retry</button>
+          <button onClick={() => run(s, 'warm-up')} disabled={busy[key] || !canWarmUp}>Warm up</button>
+        </div>
+        {!s.languages && (
+          <div className="diag-meta">Used for: {s.capabilities.join(', ')}</div>
+        )}
+        {s.languages && !isDirectOutputLanguage(s.languages.target) && (
+          <div className="diag-meta">
+            Used for: {languageName(s.languages.target)} output (written in English, then translated)
+          </div>
+        )}
+        {s.download?.status === 'downloading' && (
+          <div className="diag-meta">
+            <div className="storage-bar">
+              <div className="storage-bar-fill" style={{ width: `${Math.round(s.download.loaded * 100)}%` }} />
+            </div>
+            {Math.round(s.download.loaded * 100)}% · {formatEta(s.download.etaMs)}
+          </div>
+        )}
+        {s.download?.status === 'needs-activation' && (
+          <div className="diag-meta">Download waiting for a click: press Warm up.</div>
+        )}
+        {s.error && <div className="diag-meta diag-error">{s.error}</div>}
+      </div>
+    )
+  }
+
+  if (!report) return <div className="diagnostics"><div className="empty">Checking AI capabilities…</div></div>
+
+  return (
+    <div className="diagnostics">
+      <div className="diag-provider">
+        Backend: <strong>{report.provider}</strong>
+        <span className="diag-checked">checked {new Date(report.checkedAt).toLocaleTimeString()}</span>
+      </div>
+
+      <div className="diag-section">Models</div>
+      {report.apis.map(renderRow)}
+
+      <div className="diag-section">Translation language pairs</div>
+      {report.translators.map(renderRow)}
+
+      <div className="row">
+        <button onClick={refresh}>Re-check all</button>
+      </div>
+    </div>
+  )
+}
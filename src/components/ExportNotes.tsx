@@ -0,0 +1,73 @@
+import { useMemo, useState } from 'react'
+import type { Note, NoteKind } from '../utils/messaging'
+import {
+  buildExport,
+  downloadExport,
+  EXPORT_FORMAT_LABELS,
+  EXPORT_FORMATS,
+  exportableNotes,
+  filterNotes,
+  type ExportFormat,
+} from '../services/export'
+
+const KIND_LABELS: Record<NoteKind, string> = {
+  summary: 'Summaries',
+  explain: 'Explanations',
+  translation: 'Translations',
+  note: 'Notes',
+  chat: 'Conversations',
+}
+
+/**
+ * Local midnight of a date input value ("YYYY-MM-DD"), optionally days later
+ */
+function dayStart(value: string, addDays = 0): number | undefined {
+  if (!value) return undefined
+  const [y, m, d] = value.split('-').map(Number)
+  return new Date(y, m - 1, d + addDays).getTime()
+}
+
+/**
+ * Notes export controls
+ * 
+ * Exports the notes matching the popup's search, narrowed by kind and
+ * creation date, in the chosen format (see services/export).
+ */
+export default function ExportNotes({ notes }: { notes: Note[] }) {
+  const [format, setFormat] = useState<ExportFormat>('markdown')
+  const [kind, setKind] = useState<NoteKind | ''>('')
+  const [from, setFrom] = useState('')        // First day, inclusive
+  const [to, setTo] = useState('')            // Last day, inclusive
+
+  const selected = useMemo(
+    () => exportableNotes(filterNotes(notes, { kind: kind || undefined, from: dayStart(from), to: dayStart(to, 1) }), format),
+    [notes, kind, from, to, format]
+  )
+
+  return (
+    <div className="export-notes">
+      <div className="export-filters">
+        <select value={kind} onChange={(e) => setKind(e.target.value as NoteKind | '')} title="Kind">
+          <option value="">All kinds</option>
+          {(Object.keys(KIND_LABELS) as NoteKind[]).map((k) => (
+            <option key={k} value={k}>{KIND_LABELS[k]}</option>
+          ))}
+        </select>
+        <input type="date" value={from} max={to || undefined} onChange={(e) => setFrom(e.target.value)} title="From" />
+        <span>–</span>
+        <input type="date" value={to} min={from || undefined} onChange={(e) => setTo(e.target.value)} title="To" />
+      </div>
+      <div className="export-actions">
+        <select value={format} onChange={(e) => setFormat(e.target.value as ExportFormat)} title="Format">
+          {EXPORT_FORMATS.map((f) => (
+            <option key={f} value={f}>{EXPORT_FORMAT_LABELS[f]}</option>
+          ))}
+        </select>
+        <button onClick={() => downloadExport(buildExport(selected, format))} disabled={selected.length === 0}>
+          Export {selected.length} {selected.length === 1 ? 'note' : 'notes'}
+        </button>
+      </div>
+      {format === 'anki' && <div className="export-hint">Anki cards are made from explanations and translations.</div>}
+    </div>
+  )
+}
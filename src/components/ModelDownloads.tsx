@@ -0,0 +1,57 @@
+import { useEffect, useState } from 'react'
+import type { ModelDownloadEvent } from '../services/aiService'
+import { describeDownload, formatEta, isModelDownloadMessage } from '../utils/downloadProgress'
+
+/**
+ * Model downloads in progress
+ *
+ * Shows the downloads reported by content scripts while the popup is open,
+ * one progress bar per model and language pair. Finished downloads are
+ * removed.
+ */
+export default function ModelDownloads() {
+  const [downloads, setDownloads] = useState<Record<string, ModelDownloadEvent>>({})
+
+  useEffect(() => {
+    const listener = (msg: unknown) => {
+      if (!isModelDownloadMessage(msg)) return
+      const { event } = msg
+      setDownloads((prev) => {
+        const next = { ...prev }
+        if (event.status === 'done') delete next[event.key]
+        else next[event.key] = event
+        return next
+      })
+    }
+    chrome.runtime.onMessage.addListener(listener)
+    return () => chrome.runtime.onMessage.removeListener(listener)
+  }, [])
+
+  const events = Object.values(downloads)
+  if (events.length === 0) return null
+
+  return (
+    <div className="model-downloads">
+      {events.map((e) => {
+        const pct = Math.round(e.loaded * 100)
+        return (
+          <div key={e.key} className="model-download">
+            <div className="model-download-label">{describeDownload(e)}</div>
+            {e.status === 'needs-activation' ? (
+              <div className="model-download-meta">
+                Waiting to start: click "Click to start download" on the page.
+              </div>
+            ) : (
+              <>
+                <div className="storage-bar">
+                  <div className="storage-bar-fill" style={{ width: `${pct}%` }} />
+                </div>
+                <div className="model-download-meta">{pct}% · {formatEta(e.etaMs)}</div>
+              </>
+            )}
+          </div>
+        )
+      })}
+    </div>
+  )
+}
@@ -0,0 +1,188 @@
+import { useState } from 'react'
+import { deleteNote, pinNote, setNoteTags, updateNote } from '../services/storage'
+import type { Note, NoteTurn } from '../utils/messaging'
+
+/**
+ * Simple markdown renderer for list items
+ * Converts markdown lists (- or *) to HTML <ul>/<li> elements
+ */
+function renderMarkdown(text: string) {
+  const lines = text.split('\n')
+  const isMarkdownList = lines.some(line => /^[-*]\s/.test(line.trim()))
+  
+  if (isMarkdownList) {
+    const listItems = lines
+      .filter(line => line.trim())
+      .map(line => {
+        const trimmed = line.trim()
+        if (/^[-*]\s/.test(trimmed)) {
+          return <li key={trimmed}>{trimmed.replace(/^[-*]\s/, '')}</li>
+        }
+        return <li key={trimmed}>{trimmed}</li>
+      })
+    return <ul style={{ margin: 0, paddingLeft: '20px' }}>{listItems}</ul>
+  }
+  
+  return text
+}
+
+// Turns shown before a chat note's transcript is expanded (the opening exchange)
+const COLLAPSED_TURNS = 2
+
+/**
+ * Threaded transcript of a chat note, each answer under its question
+ */
+function ChatThread({ turns }: { turns: NoteTurn[] }) {
+  const [expanded, setExpanded] = useState(false)
+  const shown = expanded ? turns : turns.slice(0, COLLAPSED_TURNS)
+
+  return (
+    <div className="chat-thread">
+      {shown.map((turn, i) => (
+        <div key={i} className={`chat-turn ${turn.role}`}>
+          <div className="chat-speaker">{turn.role === 'user' ? 'You' : 'Assistant'}</div>
+          <div className="chat-turn-text">{renderMarkdown(turn.content)}</div>
+        </div>
+      ))}
+      {turns.length > COLLAPSED_TURNS && (
+        <button className="chat-thread-toggle" onClick={() => setExpanded(!expanded)}>
+          {expanded ? 'Show less' : `Show all ${turns.length} messages`}
+        </button>
+      )}
+    </div>
+  )
+}
+
+/**
+ * A single note in the popup list
+ * 
+ * Provides per-note controls: pin/unpin, inline edit, delete and tagging.
+ * Changes are written straight to storage; the popup re-renders from the
+ * storage change listener. Chat notes show their conversation as a thread
+ * and are not editable.
+ */
+export default function NoteCard({ note }: { note: Note }) {
+  const [editing, setEditing] = useState(false)     // Inline edit mode
+  const [draft, setDraft] = useState(note.text)     // Edited text
+  const [tagInput, setTagInput] = useState('')      // New tag being typed
+
+  const tags = note.tags || []
+  const turns = note.kind === 'chat' ? note.turns : undefined
+
+  const saveEdit = async () => {
+    const text = draft.trim()
+    if (!text) return
+    await updateNote(note.id, { text })
+    setEditing(false)
+  }
+
+  const addTag = async () => {
+    const tag = tagInput.trim()
+    if (!tag) return
+    await setNoteTags(note.id, [...tags, tag])
+    setTagInput('')
+  }
+
+  return (
+    <div className={`note-card${note.pinned ? ' pinned' : ''}`}>
+      <div className="meta">
+        <a href={note.sourceUrl} target="_blank" rel="noreferrer">
+          {note.pageTitle}
+        </a>
+        {note.pageRange && (
+          <span className="page-range">
+            {' · '}
+            {note.pageRange.from === note.pageRange.to
+              ? `p. ${note.pageRange.from}`
+              : `pp. ${note.pageRange.from}–${note.pageRange.to}`}
+          </span>
+        )}
+        <span> · {new Date(note.createdAt).toLocaleString()}</span>
+        {note.updatedAt && <span className="edited"> · edited</span>}
+      </div>
+
+      <div className="note-header">
+        <div className="kind">{note.kind}</div>
+        <div className="note-actions">
+          <button
+            className={note.pinned ? 'active' : ''}
+            title={note.pinned ? 'Unpin' : 'Pin to top'}
+            onClick={() => pinNote(note.id, !note.pinned)}
+          >
+            📌
+          </button>
+          {!turns && (
+            <button
+              title="Edit"
+              onClick={() => {
+                setDraft(note.text)
+                setEditing(!editing)
+              }}
+            >
+              ✏️
+            </button>
+          )}
+          <button
+            title="Delete"
+            onClick={async () => {
+              if (window.confirm('Delete this note? This action cannot be undone.')) {
+                await deleteNote(note.id)
+              }
+            }}
+          >
+            🗑️
+          </button>
+        </div>
+      </div>
+
+      {editing ? (
+        <div className="note-edit">
+          <textarea value={draft} onChange={(e) => setDraft(e.target.value)} rows={5} />
+          <div className="note-edit-actions">
+            <button onClick={saveEdit} disabled={!draft.trim()}>Save</button>
+            <button onClick={() => setEditing(false)}>Cancel</button>
+          </div>
+        </div>
+      ) : (
+        <div className="text">{turns ? <ChatThread turns={turns} /> : renderMarkdown(note.text)}</div>
+      )}
+
+      <div className="note-tags">
+        {tags.map((tag) => (
+          <span key={tag} className="tag">
+            #{tag}
+            <button
+              title={`Remove tag "${tag}"`}
+              onClick={() => setNoteTags(note.id, tags.filter(t => t !== tag))}
+            >
+              ×
+            </button>
+          </span>
+        ))}
+        <input
+          className="tag-input"
+          placeholder="+ tag"
+          value={tagInput}
+          onChange={(e) => setTagInput(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') addTag()
+          }}
+        />
+      </div>
+
+      {note.pageSummary && (
+        <details className="snippet">
+          <summary>Page summary</summary>
+          <pre>{note.pageSummary}</pre>
+        </details>
+      )}
+
+      {note.snippet && (
+        <details className="snippet">
+          <summary>Original snippet</summary>
+          <pre>{note.snippet}...</pre>
+        </details>
+      )}
+    </div>
+  )
+}
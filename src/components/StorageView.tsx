@@ -0,0 +1,150 @@
+import { useCallback, useEffect, useState } from 'react'
+import {
+  CACHE_NAMES,
+  enforceAllCacheBudgets,
+  getCacheLimits,
+  getCacheStats,
+  purgeCache,
+  setCacheLimits,
+  type CacheLimits,
+  type CacheName,
+  type CacheStats,
+} from '../services/cacheManager'
+import { onStorageChanged } from '../services/storage'
+
+const CACHE_LABELS: Record<CacheName, string> = {
+  pageSummaries: 'Page summaries',
+  pageChatHistory: 'Chat history',
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const MB = 1024 * 1024
+
+/**
+ * Format a byte count for display (e.g. "1.4 MB")
+ */
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < MB) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / MB).toFixed(1)} MB`
+}
+
+/**
+ * Storage usage view
+ * 
+ * Shows how much space the page caches use against their budget, lets the
+ * user adjust the limits, and offers a manual purge.
+ */
+export default function StorageView() {
+  const [stats, setStats] = useState<CacheStats[]>([])                  // Per-cache usage
+  const [limits, setLimits] = useState<CacheLimits | null>(null)       // Current budget
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null)  // Origin-wide usage
+  const [status, setStatus] = useState('')                              // Result of the last action
+
+  const refresh = useCallback(async () => {
+    setStats(await Promise.all(CACHE_NAMES.map(getCacheStats)))
+    setLimits(await getCacheLimits())
+    setEstimate(await navigator.storage?.estimate?.() ?? null)
+  }, [])
+
+  useEffect(() => {
+    refresh()
+    return onStorageChanged((area) => {
+      if (area !== 'notes') refresh()
+    })
+  }, [refresh])
+
+  const updateLimit = async (patch: Partial<CacheLimits>) => {
+    setLimits(await setCacheLimits(patch))
+  }
+
+  const applyBudget = async () => {
+    const reports = await enforceAllCacheBudgets()
+    const removed = reports.reduce((sum, r) => sum + r.expired + r.evicted, 0)
+    const freed = reports.reduce((sum, r) => sum + r.freedBytes, 0)
+    setStatus(removed > 0 ? `Removed ${removed} entries (${formatBytes(freed)})` : 'Caches are within budget')
+    await refresh()
+  }
+
+  const purge = async (name?: CacheName) => {
+    const label = name ? CACHE_LABELS[name].toLowerCase() : 'all cached summaries and chat history'
+    if (!window.confirm(`Purge ${label}? Summaries saved to notes are kept.`)) return
+    let removed = 0
+    for (const n of name ? [name] : CACHE_NAMES) {
+      removed += await purgeCache(n)
+    }
+    setStatus(`Purged ${removed} entries`)
+    await refresh()
+  }
+
+  return (
+    <div className="storage-view">
+      {estimate?.usage !== undefined && (
+        <div className="storage-total">
+          Extension storage: <strong>{formatBytes(estimate.usage)}</strong>
+          {estimate.quota ? ` of ${formatBytes(estimate.quota)} available` : ''}
+        </div>
+      )}
+
+      {stats.map((s) => {
+        const pct = limits ? Math.min(100, Math.round((s.bytes / limits.maxBytes) * 100)) : 0
+        return (
+          <div key={s.name} className="storage-cache">
+            <div className="storage-cache-header">
+              <span className="storage-cache-name">{CACHE_LABELS[s.name]}</span>
+              <button onClick={() => purge(s.name)} disabled={s.entries === s.exempt}>Purge</button>
+            </div>
+            <div className="storage-bar">
+              <div className={`storage-bar-fill${pct >= 80 ? ' high' : ''}`} style={{ width: `${pct}%` }} />
+            </div>
+            <div className="storage-cache-meta">
+              {s.entries}{limits ? ` / ${limits.maxEntries}` : ''} entries · {formatBytes(s.bytes)}
+              {limits ? ` / ${formatBytes(limits.maxBytes)}` : ''}
+              {s.exempt > 0 && ` · ${s.exempt} saved (kept)`}
+              {s.oldest && ` · oldest ${new Date(s.oldest).toLocaleDateString()}`}
+            </div>
+          </div>
+        )
+      })}
+
+      {limits && (
+        <div className="storage-limits">
+          <label>
+            Max entries
+            <input
+              type="number"
+              min={1}
+              value={limits.maxEntries}
+              onChange={(e) => updateLimit({ maxEntries: Math.max(1, Number(e.target.value) || 1) })}
+            />
+          </label>
+          <label>
+            Max size (MB)
+            <input
+              type="number"
+              min={1}
+              value={Math.round(limits.maxBytes / MB)}
+              onChange={(e) => updateLimit({ maxBytes: Math.max(1, Number(e.target.value) || 1) * MB })}
+            />
+          </label>
+          <label>
+            Keep for (days)
+            <input
+              type="number"
+              min={1}
+              value={Math.round(limits.ttlMs / DAY_MS)}
+              onChange={(e) => updateLimit({ ttlMs: Math.max(1, Number(e.target.value) || 1) * DAY_MS })}
+            />
+          </label>
+        </div>
+      )}
+
+      {status && <div className="storage-status">{status}</div>}
+
+      <div className="row">
+        <button onClick={applyBudget}>Apply limits now</button>
+        <button onClick={() => purge()}>Purge all caches</button>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,97 @@
+/**
+ * Citations - Passage references in page chat answers
+ *
+ * The page chat numbers the page's passages (see getChatPassages) and
+ * answers cite them as [n]. Citations are rendered as buttons; clicking one
+ * finds the passage in the live page, scrolls to it and highlights it with
+ * the CSS Custom Highlight API, which leaves the page's DOM untouched.
+ */
+
+import { findPassageRange } from '../services/domExtract'
+
+const HIGHLIGHT_NAME = 'ai-citation'
+const HIGHLIGHT_MS = 4000
+
+let clearTimer: ReturnType<typeof setTimeout> | undefined
+
+// References are not linked in code, or in links (a button cannot sit in a link)
+const PLAIN_TEXT_SKIP = 'code, pre, a'
+
+function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+/**
+ * Replace matches of a pattern in the text of rendered answer HTML
+ * Only text nodes outside code and links are searched, so tags, attribute
+ * values and code samples are never rewritten.
+ *
+ * @param pattern - A global regular expression
+ * @param replace - HTML for a match, or null to keep the match as text
+ */
+export function replaceInText(html: string, pattern: RegExp, replace: (match: RegExpExecArray) => string | null): string {
+  const template = document.createElement('template')
+  template.innerHTML = html
+
+  const walker = document.createTreeWalker(template.content, NodeFilter.SHOW_TEXT)
+  const nodes: Text[] = []
+  for (let node = walker.nextNode(); node; node = walker.nextNode()) {
+    if (!node.parentElement?.closest(PLAIN_TEXT_SKIP)) nodes.push(node as Text)
+  }
+
+  for (const node of nodes) {
+    const text = node.data
+    let out = ''
+    let last = 0
+    let changed = false
+    for (const match of text.matchAll(pattern)) {
+      const replacement = replace(match)
+      if (replacement === null) continue
+      out += escapeHtml(text.slice(last, match.index)) + replacement
+      last = match.index + match[0].length
+      changed = true
+    }
+    if (!changed) continue
+
+    const fragment = document.createElement('template')
+    fragment.innerHTML = out + escapeHtml(text.slice(last))
+    node.replaceWith(fragment.content)
+  }
+  return template.innerHTML
+}
+
+/**
+ * Turn [n] and [n, m] references in rendered answer HTML into citation buttons
+ * References to passages that do not exist are left as text.
+ *
+ * @param passages - The passages the answer can cite
+ */
+export function linkCitations(html: string, passages: string[]): string {
+  return replaceInText(html, /\[(\d+(?:\s*,\s*\d+)*)\]/g, ([, list]) => {
+    const numbers = list.split(',').map(n => Number(n.trim()))
+    if (!numbers.every(n => n >= 1 && n <= passages.length)) return null
+    return numbers.map(n => {
+      const preview = escapeHtml(passages[n - 1].slice(0, 160))
+      return `<button type="button" class="ai-chat-cite" data-passage="${n}" title="${preview}">${n}</button>`
+    }).join('')
+  })
+}
+
+/**
+ * Scroll to a passage in the page and highlight it for a few seconds
+ * @returns false when the passage is no longer on the page
+ */
+export function showPassage(passage: string): boolean {
+  const range = findPassageRange(passage)
+  if (!range) return false
+
+  const target = range.startContainer.parentElement
+  target?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+
+  if ('highlights' in CSS) {
+    CSS.highlights.set(HIGHLIGHT_NAME, new Highlight(range))
+    clearTimeout(clearTimer)
+    clearTimer = setTimeout(() => CSS.highlights.delete(HIGHLIGHT_NAME), HIGHLIGHT_MS)
+  }
+  return true
+}
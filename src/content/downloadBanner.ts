@@ -0,0 +1,66 @@
+/**
+ * Model Download Banner - In-page download progress for the bubble and side panel
+ *
+ * One banner per model key, kept above the streamed content so it survives
+ * content updates. A download blocked on user activation shows a button
+ * instead of a bar; clicking it is the user gesture Chrome needs.
+ */
+
+import type { ModelDownloadEvent } from '../services/aiService'
+import { describeDownload, formatEta } from '../utils/downloadProgress'
+
+/**
+ * Create, update or remove the banner for a download inside `host`
+ *
+ * @param host - Element the banner is prepended to
+ * @param event - Latest event for the download
+ * @param onStart - Retries the blocked action from a click (user activation)
+ */
+export function renderDownloadBanner(host: HTMLElement, event: ModelDownloadEvent, onStart: () => void) {
+  let banner = Array.from(host.querySelectorAll<HTMLDivElement>('.ai-download'))
+    .find(el => el.dataset.key === event.key)
+
+  if (event.status === 'done') {
+    banner?.remove()
+    return
+  }
+
+  if (!banner) {
+    banner = document.createElement('div')
+    banner.className = 'ai-download'
+    banner.dataset.key = event.key
+    host.prepend(banner)
+  }
+
+  const label = describeDownload(event)
+
+  if (event.status === 'needs-activation') {
+    banner.innerHTML = `
+      <div class="ai-download-label">${label} needs a one-time download.</div>
+      <button class="ai-download-start">⬇️ Click to start download</button>
+    `
+    const button = banner.querySelector('.ai-download-start') as HTMLButtonElement
+    // Keep the page selection, which the retried action reads
+    button.addEventListener('mousedown', (e) => e.preventDefault())
+    button.addEventListener('click', () => {
+      button.disabled = true
+      button.textContent = 'Starting download…'
+      onStart()
+    })
+    return
+  }
+
+  const pct = Math.round(event.loaded * 100)
+  banner.innerHTML = `
+    <div class="ai-download-label">Downloading ${label}…</div>
+    <div class="ai-download-bar"><div class="ai-download-bar-fill" style="width: ${pct}%"></div></div>
+    <div class="ai-download-meta">${pct}% · ${formatEta(event.etaMs)}</div>
+  `
+}
+
+/**
+ * Remove every banner from `host`
+ */
+export function clearDownloadBanners(host: HTMLElement) {
+  host.querySelectorAll('.ai-download').forEach(el => el.remove())
+}
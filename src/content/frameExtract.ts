@@ -0,0 +1,166 @@
+/**
+ * Frame Extraction - Page content across iframes
+ *
+ * The content script runs in every frame (all_frames), so each frame can
+ * extract its own document. The extracting frame reads same-origin frames
+ * directly and asks cross-origin ones over messaging (see
+ * utils/frameContent.ts), recursively, then merges every frame's content in
+ * at the frame's position in its document.
+ *
+ * PDFs and text files shown by the browser are read as documents rather
+ * than pages (see detectDocumentKind).
+ */
+
+import {
+  detectDocumentKind,
+  documentFileName,
+  extractDocument,
+  extractTextDocument,
+  findFrames,
+  type ExtractedDocument,
+} from '../services/domExtract'
+import { extractPdf, fetchDocumentBytes } from '../services/pdfExtract'
+import {
+  FRAME_CONTENT_REQUEST,
+  FRAME_CONTENT_RESULT,
+  isFrameContentMessage,
+  isFrameContentRequest,
+  type FrameContentMessage,
+  type FrameContentRequest,
+} from '../utils/frameContent'
+
+// A frame that has not answered by then is left out (no content script, or busy)
+const FRAME_TIMEOUT_MS = 2000
+
+// Frames smaller than this are ads, trackers and widgets, not content
+const MIN_FRAME_AREA = 200 * 100
+
+// Requests sent to child frames, by id
+const pendingFrames: Map<string, (content: ExtractedDocument | null) => void> = new Map()
+
+// Parsed PDFs by URL (parsing a long PDF takes seconds)
+const pdfDocuments: Map<string, Promise<ExtractedDocument>> = new Map()
+
+function readPdf(doc: Document): Promise<ExtractedDocument> {
+  let pending = pdfDocuments.get(doc.URL)
+  if (!pending) {
+    console.log('[Content] Reading PDF:', doc.URL)
+    pending = fetchDocumentBytes(doc.URL).then(data => extractPdf(data, documentFileName(doc)))
+    pending.catch(() => pdfDocuments.delete(doc.URL))
+    pdfDocuments.set(doc.URL, pending)
+  }
+  return pending
+}
+
+/**
+ * Text of each page when this frame shows a PDF, null otherwise
+ */
+export async function getPdfPages(doc: Document = document): Promise<string[] | null> {
+  if (detectDocumentKind(doc) !== 'pdf') return null
+  try {
+    return (await readPdf(doc)).pages ?? null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Extract a document's article, with the content of its child frames
+ * PDFs and text files are extracted as a whole.
+ */
+export async function extractPageDocument(doc: Document = document): Promise<ExtractedDocument> {
+  switch (detectDocumentKind(doc)) {
+    case 'pdf':
+      return readPdf(doc)
+    case 'text':
+      return extractTextDocument(doc)
+  }
+
+  const frames = new Map<Element, ExtractedDocument>()
+
+  await Promise.all(findFrames(doc).map(async (frame) => {
+    const rect = frame.getBoundingClientRect()
+    if (rect.width * rect.height < MIN_FRAME_AREA) return
+
+    const content = await readFrame(frame)
+    if (content && content.sections.length > 0) frames.set(frame, content)
+  }))
+
+  return extractDocument(doc, { frames })
+}
+
+/**
+ * Plain-text rendering of extractPageDocument()
+ */
+export async function extractPageText(doc: Document = document): Promise<string> {
+  return (await extractPageDocument(doc)).text
+}
+
+/**
+ * Read a child frame: directly when same-origin, otherwise from its content script
+ */
+async function readFrame(frame: HTMLIFrameElement): Promise<ExtractedDocument | null> {
+  let frameDoc: Document | null = null
+  try {
+    frameDoc = frame.contentDocument
+  } catch {
+    // Cross-origin
+  }
+  if (frameDoc?.body) return extractPageDocument(frameDoc)
+
+  const win = frame.contentWindow
+  if (!win) return null
+
+  const id = crypto.randomUUID()
+  return new Promise((resolve) => {
+    const timer = setTimeout(() => {
+      pendingFrames.delete(id)
+      console.log('[Content] Frame did not answer, skipping it:', frame.src)
+      resolve(null)
+    }, FRAME_TIMEOUT_MS)
+
+    pendingFrames.set(id, (content) => {
+      clearTimeout(timer)
+      pendingFrames.delete(id)
+      resolve(content)
+    })
+
+    const request: FrameContentRequest = { type: FRAME_CONTENT_REQUEST, id }
+    win.postMessage(request, '*')
+  })
+}
+
+/**
+ * Whether a window is one of this frame's ancestors
+ */
+function isAncestorWindow(source: MessageEventSource | null): boolean {
+  let win: Window = window
+  while (win !== win.parent) {
+    win = win.parent
+    if (win === source) return true
+  }
+  return false
+}
+
+/**
+ * Answer content requests from ancestor frames, and route answers from child
+ * frames to the pending requests
+ */
+export function listenForFrameContentRequests() {
+  window.addEventListener('message', (event) => {
+    if (!isFrameContentRequest(event.data) || !isAncestorWindow(event.source)) return
+    const { id } = event.data
+
+    extractPageDocument(document)
+      .then((content) => {
+        const message: FrameContentMessage = { type: FRAME_CONTENT_RESULT, id, content }
+        return chrome.runtime.sendMessage(message)
+      })
+      .catch(err => console.warn('[Content] Failed to send frame content:', err))
+  })
+
+  chrome.runtime.onMessage.addListener((msg: unknown) => {
+    if (isFrameContentMessage(msg)) pendingFrames.get(msg.id)?.(msg.content)
+    return false
+  })
+}
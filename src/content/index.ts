@@ -7,66 +7,39 @@
  * 3. Floating Button - Always-accessible button for page-level actions
  * 4. Side Panel - Full-page summary and AI chat interface
  * 5. Page Chat - Multi-turn conversation about the current page
+ * 6. Page Translation - Whole-page bilingual translation (see pageTranslate.ts)
+ * 7. Compare Chat - Side panel chat about several tabs, opened by the background
  */
 
-import { getSelectionText, extractReadableText } from '../services/domExtract'
-import { summarize, explain, translate, destroyResources, destroyExplainSession, abortSummarize, abortTranslate, ensureKeepaliveSession, createPageChatSession, askPageQuestion, destroyPageChatSession, hasPageChatSession, getPageChatTokenUsage, abortPageChatGeneration } from '../services/aiService'
-import { addNote, getSetting, setSetting, getPageSummary, setPageSummary, clearPageSummary, updatePageSummarySaveStatus, getPageChatHistory, setPageChatHistory, clearPageChatHistory, hashText, type ChatMessage } from '../services/storage'
-import type { Msg, Note } from '../utils/messaging'
+import { detectDocumentKind, getSelectionText, getSelectionContent, getSelectionContext } from '../services/domExtract'
+import { summarize, summarizeText, generatedText, explain, translate, LOW_DETECTION_CONFIDENCE, type TranslationResult, destroyResources, ensureKeepaliveSession, onModelDownloadProgress, createPageChatSession, createCompareChatSession, getChatPassages, askPageQuestion, type ChatCompaction, destroyPageChatSession, hasPageChatSession, getPageChatTokenUsage, setAIProvider } from '../services/aiService'
+import { loadProviderFromSettings } from '../services/providers'
+import { MODEL_DOWNLOAD_MESSAGE, type ModelDownloadMessage } from '../utils/downloadProgress'
+import { clearDownloadBanners, renderDownloadBanner } from './downloadBanner'
+import { autoTranslatePage, translatePage } from './pageTranslate'
+import { linkCitations, replaceInText, showPassage } from './citations'
+import { extractPageText, getPdfPages, listenForFrameContentRequests } from './frameExtract'
+import { findInPages } from '../services/pdfExtract'
+import { languageName, TARGET_LANGUAGES } from '../utils/languages'
+import { messagesToMarkdown } from '../utils/chatMarkdown'
+import { addNote, getSetting, setSetting, getPageSummary, setPageSummary, clearPageSummary, updatePageSummarySaveStatus, setPageChatHistory, clearPageChatHistory, hashText, onSettingsChanged, type ChatMessage, type ChatMessageVersion } from '../services/storage'
+import type { CompareSource, MsgType, Note } from '../utils/messaging'
+import { createMessageRouter, type MsgHandlers } from './router'
+import { loadPageChat } from './pageChat'
 import { nanoid } from 'nanoid'
 import { marked } from 'marked'
 
 /**
- * Extract surrounding context for better explanation
+ * Context for a term selected in a PDF
+ * The PDF viewer's selection is not readable from the page, so the term is
+ * looked up in the extracted pages instead.
  * 
- * For short phrases (<=4 words), we extract one sentence before and after
- * to give the AI model more context for generating accurate explanations.
- * 
- * @param selectedText - The text selected by the user
- * @returns The selected text with surrounding context, or just the selected text if extraction fails
+ * @returns The text around the term with its page, or null when this is not a PDF or the term is not found
  */
-function getContextForExplain(selectedText: string): string {
-  try {
-    const selection = window.getSelection()
-    if (!selection || selection.rangeCount === 0) return selectedText
-    
-    const range = selection.getRangeAt(0)
-    const container = range.commonAncestorContainer
-    
-    const parentElement = container.nodeType === Node.TEXT_NODE 
-      ? container.parentElement 
-      : container as Element
-    
-    if (!parentElement) return selectedText
-    
-    const fullText = parentElement.textContent || ''
-    
-    const selectionStart = fullText.indexOf(selectedText)
-    if (selectionStart === -1) return selectedText
-    
-    const beforeText = fullText.substring(0, selectionStart)
-    const afterText = fullText.substring(selectionStart + selectedText.length)
-    
-    const sentenceEndRegex = /[.!?\n]/
-    const beforeSentences = beforeText.split(sentenceEndRegex)
-    const prevSentence = beforeSentences.length > 0 
-      ? beforeSentences[beforeSentences.length - 1].trim() 
-      : ''
-    
-    const nextSentenceMatch = afterText.match(/^[^.!?\n]+[.!?\n]?/)
-    const nextSentence = nextSentenceMatch ? nextSentenceMatch[0].trim() : ''
-    
-    const context = [
-      prevSentence,
-      selectedText,
-      nextSentence
-    ].filter(s => s.length > 0).join(' ')
-    
-    return context
-  } catch (e) {
-    console.warn('[Context extraction error]', e)
-    return selectedText
-  }
+async function getPdfContext(selectedText: string): Promise<string | null> {
+  const pages = await getPdfPages()
+  const found = pages && findInPages(pages, selectedText)
+  return found ? `(page ${found.from}) ${found.context}` : null
 }
 
 // ============================================================================
@@ -75,6 +48,7 @@ function getContextForExplain(selectedText: string): string {
 
 let lastSelectionRect: DOMRect | null = null  // Store selection position for result bubble placement
 let resultBubbleEl: HTMLDivElement | null = null  // Result bubble DOM element
+let lastBubbleAction: { action: 'summ' | 'exp' | 'tr'; langOverride?: string; text: string; sourceLang?: string } | null = null  // Retried after a blocked model download
 
 /**
  * Create or retrieve the selection tooltip element
@@ -128,13 +102,15 @@ document.addEventListener('mouseup', () => {
 // Result Bubble - Displays AI-generated results
 // ============================================================================
 
+// Cancels the AI call streaming into the result bubble
+let bubbleAbort: AbortController | null = null
+
 /**
- * Hide the result bubble and abort any ongoing AI operations
+ * Hide the result bubble and abort its ongoing AI operation
  */
 function hideResultBubble() {
-  abortSummarize()
-  abortTranslate()
-  destroyExplainSession()
+  bubbleAbort?.abort()
+  bubbleAbort = null
   
   resultBubbleEl?.remove()
   resultBubbleEl = null
@@ -237,6 +213,45 @@ function addSaveButtonToBubble(kind: Note['kind'], snippet: string) {
   actions.appendChild(saveBtn)
 }
 
+/**
+ * Show the translation's source language above the bubble content, with a
+ * dropdown that re-runs the translation from another source language
+ * Low-confidence detections are highlighted: short or mixed-language
+ * snippets are often misdetected.
+ */
+function addSourceLanguageToBubble(result: TranslationResult, snippet: string, targetLang: string) {
+  if (!resultBubbleEl) return
+
+  const row = document.createElement('div')
+  row.className = 'ai-bubble-detected'
+
+  const label = document.createElement('span')
+  const name = languageName(result.sourceLang)
+  if (result.confidence === null) {
+    label.textContent = lastBubbleAction?.sourceLang ? `Source: ${name}` : `Detected: ${name} (assumed)`
+  } else {
+    label.textContent = `Detected: ${name} (${result.confidence.toFixed(2)})`
+    if (result.confidence < LOW_DETECTION_CONFIDENCE) label.classList.add('low')
+  }
+
+  const select = document.createElement('select')
+  select.title = 'Translate from another language'
+  const codes = TARGET_LANGUAGES.includes(result.sourceLang) ? TARGET_LANGUAGES : [result.sourceLang, ...TARGET_LANGUAGES]
+  for (const code of codes) {
+    const option = document.createElement('option')
+    option.value = code
+    option.textContent = languageName(code)
+    select.appendChild(option)
+  }
+  select.value = result.sourceLang
+  select.addEventListener('change', () => {
+    handleAction('tr', targetLang, snippet, select.value)
+  })
+
+  row.append(label, select)
+  resultBubbleEl.insertBefore(row, resultBubbleEl.querySelector('.ai-bubble-content'))
+}
+
 // Hide result bubble when clicking outside
 document.addEventListener('mousedown', (e) => {
   const target = e.target as Node
@@ -311,10 +326,14 @@ function renderMarkdown(text: string): string {
  * real-time feedback.
  * 
  * @param action - The action to perform
+ * @param langOverride - Target language to use instead of the saved setting
+ * @param textOverride - Text to process instead of the current selection
+ * @param sourceLang - Source language for Translate (detected when omitted)
+ * @returns The generated result (empty string if nothing was generated)
  */
-async function handleAction(action: 'summ' | 'exp' | 'tr' | 'save') {
-  const selected = getSelectionText()
-  if (!selected) return
+async function handleAction(action: 'summ' | 'exp' | 'tr' | 'save', langOverride?: string, textOverride?: string, sourceLang?: string): Promise<string> {
+  const selected = textOverride ?? getSelectionContent()
+  if (!selected) return ''
 
   if (action === 'save') {
     try {
@@ -325,29 +344,39 @@ async function handleAction(action: 'summ' | 'exp' | 'tr' | 'save') {
       console.error('[Save error]', e)
       showResultBubble('⚠️ Failed to save.')
     }
-    return
+    return selected
   }
 
+  lastBubbleAction = { action, langOverride, text: selected, sourceLang }
+
   const tip = document.getElementById('__ai_companion_tip__')
   const buttons = tip?.querySelectorAll('button') as NodeListOf<HTMLButtonElement>
   buttons?.forEach(btn => btn.disabled = true)
 
-  const targetLang = (await getSetting<string>('targetLang')) || 'en'
-  console.log('[Content] Target language from storage:', targetLang)
+  const targetLang = langOverride || (await getSetting<string>('targetLang')) || 'en'
+  console.log('[Content] Target language:', targetLang)
 
+  // A new action replaces whatever the bubble was showing
+  bubbleAbort?.abort()
+  bubbleAbort = new AbortController()
+  const { signal } = bubbleAbort
+
+  let output = ''
   try {
     if (action === 'summ') {
       showResultBubble('Generating summary... It may take a while for Chrome to download the required models for the first time. Thanks for your patience!', { showActions: false })
       
-      const result = await summarize(selected, {
+      const result = await summarizeText(selected, {
         type: 'key-points',
         lang: targetLang,
+        signal,
         onChunk: (chunk) => {
           showResultBubble(chunk, { kind: 'summary', snippet: selected, updateOnly: true })
         }
       })
       
-      if (result && !result.startsWith('⚠️')) {
+      output = generatedText(result)
+      if (result && typeof result === 'string') {
         addSaveButtonToBubble('summary', selected)
       }
     } else if (action === 'exp') {
@@ -357,22 +386,27 @@ async function handleAction(action: 'summ' | 'exp' | 'tr' | 'save') {
         const wordCount = selected.trim().split(/\s+/).length
         console.log('[Content] Selected text word count:', wordCount)
         
-        let context: string | undefined
-        if (wordCount <= 4) {
-          context = getContextForExplain(selected)
-          console.log('[Content] Short phrase detected - extracting context:', context)
-        } else {
-          console.log('[Content] Long text detected - no additional context needed')
-        }
+        // Short phrases get more surrounding sentences; longer selections
+        // carry most of their own context. A retried or context-menu action
+        // only reads the page selection while it still holds the same text.
+        const sameSelection = textOverride === undefined
+          || getSelectionText().replace(/\s+/g, ' ') === textOverride.trim().replace(/\s+/g, ' ')
+        const pageContext = sameSelection ? getSelectionContext({ sentences: wordCount <= 4 ? 2 : 1 }) : null
+        const context = (await getPdfContext(selected)) ?? pageContext?.text
+        console.log('[Content] Explain context:', context, '| heading:', pageContext?.heading)
         
         const result = await explain(selected, {
           context,
+          heading: pageContext?.heading,
+          pageTitle: pageContext?.pageTitle ?? document.title,
           lang: targetLang,
+          signal,
           onChunk: (chunk) => {
             showResultBubble(chunk, { kind: 'explain', snippet: selected, updateOnly: true })
           }
         })
         
+        output = result
         if (result && result.trim()) {
           addSaveButtonToBubble('explain', selected)
         }
@@ -383,14 +417,20 @@ async function handleAction(action: 'summ' | 'exp' | 'tr' | 'save') {
     } else if (action === 'tr') {
       showResultBubble('Translating... It may take a while for Chrome to download the required models for the first time. Thanks for your patience!', { showActions: false })
       
-      await translate(selected, { 
+      const result = await translate(selected, { 
         targetLang,
+        sourceLang,
+        signal,
         onChunk: (chunk) => {
           showResultBubble(chunk, { kind: 'translation', snippet: selected, updateOnly: true })
         }
       })
       
-      addSaveButtonToBubble('translation', selected)
+      output = result.text
+      if (output) {
+        addSourceLanguageToBubble(result, selected, targetLang)
+        addSaveButtonToBubble('translation', selected)
+      }
     }
   } catch (e) {
     console.error('[AI action error]', e)
@@ -398,16 +438,17 @@ async function handleAction(action: 'summ' | 'exp' | 'tr' | 'save') {
   } finally {
     buttons?.forEach(btn => btn.disabled = false)
   }
+  return output
 }
 
 /**
- * Save a note to chrome.storage.local
+ * Save a note to the extension's IndexedDB (through the background worker)
  * 
  * @param kind - Type of note (summary, explain, translation, note)
  * @param text - The main content
  * @param snippet - Optional original text snippet
  */
-async function saveNoteToStore(kind: Note['kind'], text: string, snippet?: string) {
+async function saveNoteToStore(kind: Note['kind'], text: string, snippet?: string, pageRange?: Note['pageRange']) {
   const note: Note = {
     id: nanoid(),
     sourceUrl: location.href,
@@ -417,10 +458,46 @@ async function saveNoteToStore(kind: Note['kind'], text: string, snippet?: strin
     snippet,
     createdAt: Date.now(),
     lang: 'auto',
+    pageRange: pageRange ?? await pdfPageRange(snippet ?? text),
+  }
+  await addNote(note)
+}
+
+/**
+ * Save the side panel's conversation as a chat note
+ * A compare chat is saved with its sources in place of the page summary.
+ */
+async function saveConversationNote() {
+  const turns = chatMessages.map(({ role, content }) => ({ role, content }))
+  const note: Note = {
+    id: nanoid(),
+    sourceUrl: location.href,
+    pageTitle: compareSources ? `Comparison: ${compareSources.map(s => s.title || s.url).join(' · ')}` : document.title,
+    kind: 'chat',
+    text: messagesToMarkdown(turns),
+    createdAt: Date.now(),
+    lang: 'auto',
+    turns,
+    pageSummary: compareSources
+      ? compareSources.map(s => `${s.label}: ${s.title || s.url} (${s.url})`).join('\n')
+      : currentPageSummary,
+    pageRange: compareSources ? undefined : await pdfPageRange(),
   }
   await addNote(note)
 }
 
+/**
+ * PDF pages a text comes from, when this frame shows a PDF
+ * Without a text, the range of the whole document.
+ */
+async function pdfPageRange(text?: string): Promise<Note['pageRange']> {
+  const pages = await getPdfPages()
+  if (!pages || pages.length === 0) return undefined
+  if (text === undefined) return { from: 1, to: pages.length }
+  const found = findInPages(pages, text)
+  return found ? { from: found.from, to: found.to } : undefined
+}
+
 // ============================================================================
 // Floating Button + Side Panel - Full page summary and chat
 // ============================================================================
@@ -429,18 +506,24 @@ async function saveNoteToStore(kind: Note['kind'], text: string, snippet?: strin
 let floatBtnEl: HTMLDivElement | null = null
 let sidePanelEl: HTMLDivElement | null = null
 let sidePanelContentEl: HTMLDivElement | null = null
+let sidePanelDownloadsEl: HTMLDivElement | null = null  // Model download banners
 let sidePanelOpen = false
 
 // Page summary state
 let isGeneratingPageSummary = false  // Prevent duplicate summary generation
 let isPageSummarySaved = false       // Track if current summary is saved
+let pageSummaryAbort: AbortController | null = null  // Cancels the page summary being generated
 
 // Page chat state
 let chatMessages: ChatMessage[] = []  // Conversation history
+let chatDigest: string | undefined    // Condensed compacted messages (see askPageQuestion's onCompact)
 let currentPageText = ''              // Current page text content
 let currentPageSummary = ''           // Current page summary
 let isChatMode = false                // Whether chat interface is active
 let isGeneratingChat = false          // Whether AI is generating response
+let chatAbort: AbortController | null = null  // Cancels the answer being generated
+let compareSources: CompareSource[] | null = null  // Tabs being compared; the chat is about them instead of this page
+let passageCache: { text: string; passages: string[] } | null = null  // Numbered passages of currentPageText
 
 /**
  * Create or retrieve the floating button
@@ -543,6 +626,11 @@ function ensureFloatingButton() {
         return 
       }
       
+      if (compareSources) {
+        showSidePanel()
+        return
+      }
+      
       if (isGeneratingPageSummary) {
         console.log('[Float Button] Opening panel to show generation progress')
         ensureSidePanel()
@@ -578,7 +666,14 @@ function ensureFloatingButton() {
 }
   
 
-async function openPanelAndSummarizePage(forceRefresh = false) {
+/**
+ * Open the side panel and show the page summary (cached or freshly generated)
+ *
+ * @param forceRefresh - Ignore the cached summary and regenerate
+ * @param resume - Opened to resume the stored chat: keep it when the page has changed
+ * @returns The page summary, or null if summarization failed
+ */
+async function openPanelAndSummarizePage(forceRefresh = false, resume = false): Promise<string | null> {
     if (isGeneratingPageSummary) {
       console.log('[AI] Already generating, opening panel to show progress')
       ensureSidePanel()
@@ -586,7 +681,7 @@ async function openPanelAndSummarizePage(forceRefresh = false) {
         sidePanelEl?.classList.add('open')
         sidePanelOpen = true
       }
-      return
+      return currentPageSummary
     }
     
     if (forceRefresh) {
@@ -606,25 +701,26 @@ async function openPanelAndSummarizePage(forceRefresh = false) {
           currentPageSummary = cached.summary
           isPageSummarySaved = cached.isSaved || false
           
-          const chatHistory = await getPageChatHistory(currentUrl)
-          if (chatHistory && chatHistory.contentHash === cached.contentHash) {
+          const chatHistory = await loadPageChat(currentUrl, cached.contentHash, resume)
+          if (chatHistory) {
             console.log('[Content] ✅ Page unchanged after refresh/reload, restoring chat history')
             console.log('[Content] 📜 Restored', chatHistory.messages.length, 'messages from storage')
             chatMessages = chatHistory.messages
+            chatDigest = chatHistory.digest
             
             if (chatMessages.length > 0) {
               isChatMode = true
               console.log('[Content] Setting isChatMode = true (chat history exists)')
             }
           } else {
-            console.log('[Content] ❌ Page content changed or no history, clearing chat')
+            console.log('[Content] ❌ Page content changed or no history, starting without chat')
             chatMessages = []
+            chatDigest = undefined
             isChatMode = false
-            await clearPageChatHistory(currentUrl)
           }
           
           renderPageSummary(cached.summary, cached.text)
-          return
+          return cached.summary
         }
       }
       
@@ -637,14 +733,19 @@ async function openPanelAndSummarizePage(forceRefresh = false) {
       if (existingRefreshBtn) existingRefreshBtn.disabled = true
       
       showSidePanel('Generating summary... It may take a while for Chrome to download the required models for the first time. Thanks for your patience!')
-      const text = extractReadableText(document)
+      const text = await extractPageText(document)
       
       let isFirstChunk = true
       
+      pageSummaryAbort = new AbortController()
+      const { signal } = pageSummaryAbort
+      if (sidePanelDownloadsEl) clearDownloadBanners(sidePanelDownloadsEl)
+      
       const targetLang = (await getSetting<string>('targetLang')) || 'en'
       const res = await summarize(text, {
         type: 'tldr',
         lang: targetLang,
+        signal,
         onChunk: (chunk) => {
           if (isFirstChunk) {
             sidePanelContentEl!.innerHTML = `
@@ -662,6 +763,11 @@ async function openPanelAndSummarizePage(forceRefresh = false) {
         }
       })
       
+      if (signal.aborted) {
+        console.log('[Content] Page summary was canceled')
+        return null
+      }
+      
       await setPageSummary(currentUrl, res, text)
       
       currentPageText = text
@@ -669,28 +775,33 @@ async function openPanelAndSummarizePage(forceRefresh = false) {
       
       const currentHash = await hashText(text)
       
-      const chatHistory = await getPageChatHistory(currentUrl)
-      if (chatHistory && chatHistory.contentHash === currentHash) {
+      const chatHistory = await loadPageChat(currentUrl, currentHash, resume)
+      if (chatHistory) {
         console.log('[Content] ✅ Page content matches, restoring chat history')
         console.log('[Content] 📜 Restored', chatHistory.messages.length, 'messages from storage')
         chatMessages = chatHistory.messages
+        chatDigest = chatHistory.digest
         if (chatMessages.length > 0) {
           isChatMode = true
           console.log('[Content] Setting isChatMode = true (chat history exists)')
         }
       } else {
-        console.log('[Content] ❌ Page content changed or no history, clearing chat')
+        console.log('[Content] ❌ Page content changed or no history, starting without chat')
         chatMessages = []
+        chatDigest = undefined
         isChatMode = false
-        await clearPageChatHistory(currentUrl)
       }
       
       renderPageSummary(res, text)
+      return res
     } catch (e) {
       console.error(e)
-      showSidePanel('⚠️ Failed to summarize this page.')
+      const reason = detectDocumentKind() === 'pdf' && e instanceof Error ? ` ${e.message}` : ''
+      showSidePanel(`⚠️ Failed to summarize this page.${reason}`)
+      return null
     } finally {
       isGeneratingPageSummary = false
+      pageSummaryAbort = null
     }
 }
 
@@ -726,7 +837,7 @@ function renderPageSummary(summary: string, text: string) {
     saveBtn.disabled = true
     saveBtn.textContent = 'Saving...'
     try {
-      await saveNoteToStore('summary', summary, text.slice(0, 300))
+      await saveNoteToStore('summary', summary, text.slice(0, 300), await pdfPageRange())
       saveBtn.textContent = 'Saved ✓'
       isPageSummarySaved = true
       await updatePageSummarySaveStatus(location.href, true)
@@ -743,12 +854,14 @@ function renderPageSummary(summary: string, text: string) {
       console.log('[AI] Generation in progress, canceling and refreshing')
     }
     
-    abortSummarize()
+    pageSummaryAbort?.abort()
+    chatAbort?.abort()
     destroyPageChatSession()
     
     isChatMode = false
     isGeneratingChat = false
     chatMessages = []
+    chatDigest = undefined
     currentPageText = ''
     currentPageSummary = ''
     isPageSummarySaved = false
@@ -768,7 +881,7 @@ function renderPageSummary(summary: string, text: string) {
       
       // Stop any ongoing generation
       if (isGeneratingChat) {
-        abortPageChatGeneration()
+        chatAbort?.abort()
         isGeneratingChat = false
       }
       
@@ -776,6 +889,7 @@ function renderPageSummary(summary: string, text: string) {
       destroyPageChatSession()
       isChatMode = false
       chatMessages = []
+      chatDigest = undefined
       
       // Clear chat history from storage
       await clearPageChatHistory(location.href)
@@ -788,18 +902,12 @@ function renderPageSummary(summary: string, text: string) {
       // Ask Follow-up mode - create session
       isChatMode = true
       
-      const targetLang = (await getSetting<string>('targetLang')) || 'en'
       console.log('[Content] Creating chat session with', chatMessages.length, 'restored messages')
-      const success = await createPageChatSession({
-        pageText: currentPageText,
-        pageSummary: currentPageSummary,
-        lang: targetLang,
-        chatHistory: chatMessages.length > 0 ? chatMessages : undefined
-      })
+      const success = await createPanelChatSession(chatMessages.length > 0 ? chatMessages : undefined)
       
       if (!success) {
         isChatMode = false
-        alert(`Chat unavailable - AI model not ready or language not supported.\n\nPlease refresh the page and try again later, and also check your console for more details.\n\nWe currently only support English, Japanese, and Spanish. More languages are on the way.\n\nQuick Setup Guide:\n1. Use Chrome 138+ or Chrome Canary/Dev (chrome://version)\n2. Enable flags in chrome://flags:\n   • #prompt-api-for-gemini-nano → Enabled Multilingual\n   • #optimization-guide-on-device-model → Enabled BypassPerfRequirement\n3. Restart browser\n4. Download model at chrome://components (Optimization Guide On Device Model)\n5. Requirements: 22GB disk space, 4GB+ GPU or 16GB+ RAM\n\nLearn more: https://developer.chrome.com/docs/ai/built-in-apis`)
+        alert(`Chat unavailable - AI model not ready or language not supported.\n\nPlease refresh the page and try again later, and also check your console for more details.\n\nAnswers are written in English, Japanese or Spanish, and in any other language Chrome's Translator supports by translating from English.\n\nQuick Setup Guide:\n1. Use Chrome 138+ or Chrome Canary/Dev (chrome://version)\n2. Enable flags in chrome://flags:\n   • #prompt-api-for-gemini-nano → Enabled Multilingual\n   • #optimization-guide-on-device-model → Enabled BypassPerfRequirement\n3. Restart browser\n4. Download model at chrome://components (Optimization Guide On Device Model)\n5. Requirements: 22GB disk space, 4GB+ GPU or 16GB+ RAM\n\nLearn more: https://developer.chrome.com/docs/ai/built-in-apis`)
         return
       }
       
@@ -814,14 +922,8 @@ function renderPageSummary(summary: string, text: string) {
     
     if (chatMessages.length > 0 && !hasPageChatSession()) {
       ;(async () => {
-        const targetLang = (await getSetting<string>('targetLang')) || 'en'
         console.log('[Content] Auto-creating chat session for restored history')
-        const success = await createPageChatSession({
-          pageText: currentPageText,
-          pageSummary: currentPageSummary,
-          lang: targetLang,
-          chatHistory: chatMessages
-        })
+        const success = await createPanelChatSession(chatMessages)
         
         if (success) {
           console.log('[Content] Session created, re-rendering chat UI to show token status')
@@ -859,17 +961,24 @@ function renderChatUI() {
   let messagesHTML = ''
   if (chatMessages.length > 0) {
     messagesHTML = '<div class="ai-chat-messages" id="__ai_chat_messages__">'
+    const lastCompacted = chatMessages.map(m => !!m.compacted).lastIndexOf(true)
     chatMessages.forEach((msg, idx) => {
-      const className = msg.role === 'user' ? 'ai-chat-message-user' : 'ai-chat-message-assistant'
+      const className = `${msg.role === 'user' ? 'ai-chat-message-user' : 'ai-chat-message-assistant'}${msg.compacted ? ' compacted' : ''}`
       const contentHtml = msg.role === 'assistant'
-        ? renderMarkdown(msg.content)
+        ? renderAnswer(msg.content)
         : escapeHtml(msg.content).replace(/\n/g, '<br/>')
       const isLastAssistantStreaming = isGeneratingChat && idx === chatMessages.length - 1 && msg.role === 'assistant'
       messagesHTML += `
-        <div class="${className}">
+        <div class="${className}" data-index="${idx}">
           <div class="ai-chat-message-content" ${isLastAssistantStreaming ? 'id="__ai_chat_last_msg__"' : ''}>${contentHtml}</div>
+          ${isLastAssistantStreaming ? '' : renderMessageActions(msg, idx)}
         </div>
       `
+      // Messages above the marker are only in the session through the digest
+      if (idx === lastCompacted) {
+        const digest = escapeHtml(chatDigest || '').replace(/"/g, '&quot;')
+        messagesHTML += `<div class="ai-chat-compaction" title="${digest}">Earlier messages condensed to free up context</div>`
+      }
     })
     messagesHTML += '</div>'
   }
@@ -886,13 +995,20 @@ function renderChatUI() {
     `
   }
   
+  const toolbarHTML = chatMessages.length > 0 ? `
+    <div class="ai-chat-toolbar">
+      <button id="__ai_save_chat__" class="ai-chat-save" title="Save this conversation to notes">💾 Save Conversation</button>
+      ${tokenStatusHTML}
+    </div>
+  ` : tokenStatusHTML
+  
   const inputHTML = `
-    ${tokenStatusHTML}
+    ${toolbarHTML}
     <div class="ai-chat-input-container">
       <textarea 
         id="__ai_chat_input__" 
         class="ai-chat-input" 
-        placeholder="Ask anything about this page..."
+        placeholder="${compareSources ? 'Compare these pages...' : 'Ask anything about this page...'}"
         ${isGeneratingChat ? 'disabled' : ''}
       ></textarea>
       <button 
@@ -910,8 +1026,29 @@ function renderChatUI() {
   const messagesContainer = document.getElementById('__ai_chat_messages__')
   if (messagesContainer) {
     messagesContainer.scrollTop = messagesContainer.scrollHeight
+    messagesContainer.addEventListener('click', (e) => {
+      const button = (e.target as HTMLElement).closest<HTMLButtonElement>('.ai-chat-action')
+      const messageEl = button?.closest<HTMLElement>('[data-index]')
+      if (!button || !messageEl || isGeneratingChat) return
+      handleMessageAction(button.dataset.action, Number(messageEl.dataset.index), messageEl, button)
+    })
   }
   
+  const saveChatBtn = document.getElementById('__ai_save_chat__') as HTMLButtonElement | null
+  saveChatBtn?.addEventListener('click', async () => {
+    if (saveChatBtn.disabled || isGeneratingChat) return
+    saveChatBtn.disabled = true
+    saveChatBtn.textContent = 'Saving...'
+    try {
+      await saveConversationNote()
+      saveChatBtn.textContent = 'Saved ✓'
+    } catch (e) {
+      console.error('[Save error]', e)
+      saveChatBtn.disabled = false
+      saveChatBtn.textContent = '💾 Save Conversation'
+    }
+  })
+  
   const input = document.getElementById('__ai_chat_input__') as HTMLTextAreaElement | null
   const submitBtn = document.getElementById('__ai_chat_submit__') as HTMLButtonElement | null
   
@@ -927,7 +1064,7 @@ function renderChatUI() {
     
     submitBtn.addEventListener('click', () => {
       if (isGeneratingChat) {
-        abortPageChatGeneration()
+        chatAbort?.abort()
         isGeneratingChat = false
         submitBtn.classList.remove('generating')
         submitBtn.title = 'Send message'
@@ -953,15 +1090,6 @@ async function handleChatSubmit(question: string) {
   }
   chatMessages.push(userMessage)
   
-  isGeneratingChat = true
-  const submitBtn = document.getElementById('__ai_chat_submit__') as HTMLButtonElement | null
-  if (submitBtn) {
-    submitBtn.classList.add('generating')
-    submitBtn.title = 'Stop generating'
-    submitBtn.textContent = '⬛'
-  }
-  input.disabled = true
-  
   const messagesContainer = document.getElementById('__ai_chat_messages__') as HTMLDivElement | null
   if (messagesContainer) {
     const userHtml = `
@@ -973,20 +1101,38 @@ async function handleChatSubmit(question: string) {
     messagesContainer.scrollTop = messagesContainer.scrollHeight
   }
   
+  await answerLastQuestion()
+}
+
+/**
+ * Answer the question at the end of the conversation
+ * @param replaces - The answer being regenerated; the new answer becomes
+ *   its next version
+ */
+async function answerLastQuestion(replaces?: ChatMessage) {
+  const questionMessage = chatMessages[chatMessages.length - 1]
+  const question = questionMessage.content
+  
+  isGeneratingChat = true
+  chatAbort = new AbortController()
+  const { signal } = chatAbort
+  const submitBtn = document.getElementById('__ai_chat_submit__') as HTMLButtonElement | null
+  const input = document.getElementById('__ai_chat_input__') as HTMLTextAreaElement | null
+  if (submitBtn) {
+    submitBtn.classList.add('generating')
+    submitBtn.title = 'Stop generating'
+    submitBtn.textContent = '⬛'
+  }
+  if (input) input.disabled = true
+  
   try {
     if (!hasPageChatSession()) {
-      const targetLang = (await getSetting<string>('targetLang')) || 'en'
       const historyForSession = chatMessages.slice(0, -1)
       console.log('[Content] Session destroyed, recreating with', historyForSession.length, 'history messages')
       if (historyForSession.length > 0) {
         console.log('[Content] Passing history to new session')
       }
-      const success = await createPageChatSession({
-        pageText: currentPageText,
-        pageSummary: currentPageSummary,
-        lang: targetLang,
-        chatHistory: historyForSession.length > 0 ? historyForSession : undefined
-      })
+      const success = await createPanelChatSession(historyForSession.length > 0 ? historyForSession : undefined, signal)
       
       if (!success) {
         throw new Error('Failed to create chat session')
@@ -1016,12 +1162,15 @@ async function handleChatSubmit(question: string) {
     
     const response = await askPageQuestion(question, {
       lang: targetLang,
+      signal,
+      onCompact: applyCompaction,
+      timestamps: { question: questionMessage.timestamp, answer: assistantMessage.timestamp },
       onChunk: (chunk) => {
         if (chatMessages.length > 0) {
           chatMessages[chatMessages.length - 1].content = chunk
           const lastEl = document.getElementById('__ai_chat_last_msg__')
           if (lastEl) {
-            lastEl.innerHTML = renderMarkdown(chunk)
+            lastEl.innerHTML = renderAnswer(chunk)
             const messagesContainer = document.getElementById('__ai_chat_messages__')
             if (messagesContainer) {
               messagesContainer.scrollTop = messagesContainer.scrollHeight
@@ -1040,15 +1189,10 @@ async function handleChatSubmit(question: string) {
         chatMessages.pop()
       }
     }
+    if (replaces) keepAsNextVersion(replaces)
     
     updateTokenStatus()
-    
-    const contentHash = await hashText(currentPageText)
-    await setPageChatHistory(location.href, {
-      messages: chatMessages,
-      contentHash,
-      pageSummary: currentPageSummary
-    })
+    await savePanelChat()
   } catch (e: any) {
     console.error('[Chat error]', e)
     const isAbort = e?.name === 'AbortError' || e?.message?.includes('aborted') || e?.message?.includes('Session destroyed')
@@ -1064,28 +1208,358 @@ async function handleChatSubmit(question: string) {
         timestamp: Date.now()
       }
       chatMessages.push(errorMsg)
-      const messagesContainer3 = document.getElementById('__ai_chat_messages__') as HTMLDivElement | null
-      if (messagesContainer3) {
-        const errHtml = `
-          <div class="ai-chat-message-assistant">
-            <div class="ai-chat-message-content">${escapeHtml(errorMsg.content).replace(/\n/g, '<br/>')}</div>
-          </div>
-        `
-        messagesContainer3.insertAdjacentHTML('beforeend', errHtml)
-        messagesContainer3.scrollTop = messagesContainer3.scrollHeight
-      }
     }
+    if (replaces) keepAsNextVersion(replaces)
   } finally {
     isGeneratingChat = false
-    const submitBtn2 = document.getElementById('__ai_chat_submit__') as HTMLButtonElement | null
-    const input2 = document.getElementById('__ai_chat_input__') as HTMLTextAreaElement | null
-    if (submitBtn2) {
-      submitBtn2.classList.remove('generating')
-      submitBtn2.title = 'Send message'
-      submitBtn2.textContent = '➤'
+    if (chatAbort?.signal === signal) chatAbort = null
+    // Redraw with the message actions, which are hidden while answering
+    renderChatUI()
+  }
+}
+
+/**
+ * Store the page chat with the page
+ * Compare chats are not tied to this page, so they are not stored with it.
+ */
+async function savePanelChat() {
+  if (compareSources) return
+  const contentHash = await hashText(currentPageText)
+  await setPageChatHistory(location.href, {
+    messages: chatMessages,
+    contentHash,
+    pageSummary: currentPageSummary,
+    digest: chatDigest,
+    pageTitle: document.title
+  })
+}
+
+// ============================================================================
+// Chat Message Actions - Copy, edit, regenerate and switch versions
+// ============================================================================
+
+/**
+ * Index of the message's shown version
+ */
+function shownVersion(msg: ChatMessage): number {
+  return msg.version ?? (msg.versions?.length ?? 1) - 1
+}
+
+/**
+ * The message's versions, with the shown one holding the given follow-ups
+ */
+function stashVersion(msg: ChatMessage, followUps: ChatMessage[]): ChatMessageVersion[] {
+  const versions = msg.versions ? [...msg.versions] : []
+  versions[shownVersion(msg)] = { content: msg.content, timestamp: msg.timestamp, followUps }
+  return versions
+}
+
+/**
+ * Buttons under a chat message
+ * Compacted messages are only in the session through the digest, so they
+ * can be copied but not edited, regenerated or switched.
+ */
+function renderMessageActions(msg: ChatMessage, index: number): string {
+  const buttons: string[] = []
+  const count = msg.versions?.length ?? 0
+  if (!msg.compacted && count > 1) {
+    const shown = shownVersion(msg)
+    buttons.push(
+      `<button type="button" class="ai-chat-action" data-action="prev" title="Previous version" ${shown === 0 ? 'disabled' : ''}>‹</button>`,
+      `<span class="ai-chat-version">${shown + 1}/${count}</span>`,
+      `<button type="button" class="ai-chat-action" data-action="next" title="Next version" ${shown === count - 1 ? 'disabled' : ''}>›</button>`
+    )
+  }
+  if (!msg.compacted && msg.role === 'user') {
+    buttons.push('<button type="button" class="ai-chat-action" data-action="edit" title="Edit question">✎</button>')
+  }
+  const isLastAnswer = index === chatMessages.length - 1 && chatMessages[index - 1]?.role === 'user'
+  if (!msg.compacted && msg.role === 'assistant' && isLastAnswer) {
+    buttons.push('<button type="button" class="ai-chat-action" data-action="regenerate" title="Regenerate answer">↻</button>')
+  }
+  buttons.push('<button type="button" class="ai-chat-action" data-action="copy" title="Copy">⧉</button>')
+  return `<div class="ai-chat-message-actions">${buttons.join('')}</div>`
+}
+
+function handleMessageAction(action: string | undefined, index: number, messageEl: HTMLElement, button: HTMLButtonElement) {
+  const msg = chatMessages[index]
+  if (!msg) return
+  switch (action) {
+    case 'copy':
+      navigator.clipboard.writeText(msg.content).then(() => {
+        button.textContent = '✓'
+        setTimeout(() => { button.textContent = '⧉' }, 1500)
+      }).catch(err => console.warn('[Content] Failed to copy chat message:', err))
+      break
+    case 'edit':
+      startEditingQuestion(index, messageEl)
+      break
+    case 'regenerate':
+      regenerateAnswer()
+      break
+    case 'prev':
+    case 'next':
+      showMessageVersion(index, action === 'prev' ? -1 : 1)
+      break
+  }
+}
+
+/**
+ * Replace a question with an editor; sending it branches the conversation
+ * from that question
+ */
+function startEditingQuestion(index: number, messageEl: HTMLElement) {
+  const contentEl = messageEl.querySelector('.ai-chat-message-content')
+  if (!contentEl) return
+  messageEl.classList.add('editing')
+  contentEl.innerHTML = `
+    <textarea class="ai-chat-edit-input"></textarea>
+    <div class="ai-chat-edit-buttons">
+      <button type="button" class="ai-chat-edit-cancel">Cancel</button>
+      <button type="button" class="ai-chat-edit-send">Send</button>
+    </div>
+  `
+  const textarea = contentEl.querySelector('textarea')!
+  textarea.value = chatMessages[index].content
+  textarea.focus()
+  
+  const send = () => {
+    const question = textarea.value.trim()
+    if (question && !isGeneratingChat) editQuestion(index, question)
+  }
+  textarea.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter' && !e.shiftKey) {
+      e.preventDefault()
+      send()
+    } else if (e.key === 'Escape') {
+      renderChatUI()
     }
-    if (input2) input2.disabled = false
+  })
+  contentEl.querySelector('.ai-chat-edit-send')!.addEventListener('click', send)
+  contentEl.querySelector('.ai-chat-edit-cancel')!.addEventListener('click', () => renderChatUI())
+}
+
+/**
+ * Ask an edited question as a new version of the original
+ * The conversation after the original stays with its version.
+ */
+async function editQuestion(index: number, question: string) {
+  const msg = chatMessages[index]
+  if (question === msg.content) {
+    renderChatUI()
+    return
+  }
+  const versions = stashVersion(msg, chatMessages.slice(index + 1))
+  const timestamp = Date.now()
+  versions.push({ content: question, timestamp, followUps: [] })
+  chatMessages = [
+    ...chatMessages.slice(0, index),
+    { ...msg, content: question, timestamp, versions, version: versions.length - 1 }
+  ]
+  await restartFromLastQuestion()
+}
+
+async function regenerateAnswer() {
+  const previous = chatMessages[chatMessages.length - 1]
+  if (previous?.role !== 'assistant') return
+  chatMessages.pop()
+  await restartFromLastQuestion(previous)
+}
+
+/**
+ * Answer the last question again in a session that has not seen the
+ * conversation after it
+ */
+async function restartFromLastQuestion(replaces?: ChatMessage) {
+  destroyPageChatSession()
+  renderChatUI()
+  await answerLastQuestion(replaces)
+}
+
+/**
+ * Make the new answer at the end of the conversation the next version of
+ * the one it replaces
+ * When no answer came back, the replaced answer is restored.
+ */
+function keepAsNextVersion(replaced: ChatMessage) {
+  const last = chatMessages[chatMessages.length - 1]
+  if (last?.role !== 'assistant') {
+    chatMessages.push(replaced)
+    return
+  }
+  const versions = stashVersion(replaced, [])
+  versions.push({ content: last.content, timestamp: last.timestamp, followUps: [] })
+  chatMessages[chatMessages.length - 1] = { ...last, versions, version: versions.length - 1 }
+}
+
+/**
+ * Show another version of a message, with the conversation that followed it
+ * The session is dropped and recreated from the shown conversation on the
+ * next question.
+ */
+function showMessageVersion(index: number, step: number) {
+  const msg = chatMessages[index]
+  const versions = stashVersion(msg, chatMessages.slice(index + 1))
+  const target = shownVersion(msg) + step
+  const next = versions[target]
+  if (!next) return
+  versions[target] = { ...next, followUps: [] }
+  chatMessages = [
+    ...chatMessages.slice(0, index),
+    { ...msg, content: next.content, timestamp: next.timestamp, versions, version: target },
+    ...next.followUps
+  ]
+  destroyPageChatSession()
+  renderChatUI()
+  savePanelChat().catch(err => console.warn('[Content] Failed to save chat history:', err))
+}
+
+/**
+ * Create the chat session for the panel's conversation: this page, or the
+ * compared tabs in a compare chat
+ */
+async function createPanelChatSession(chatHistory?: ChatMessage[], signal?: AbortSignal): Promise<boolean> {
+  const targetLang = (await getSetting<string>('targetLang')) || 'en'
+  // Compacted messages are in the session through the digest
+  const history = chatHistory?.filter(m => !m.compacted)
+  const digest = chatDigest
+  if (compareSources) {
+    return createCompareChatSession({ sources: compareSources, lang: targetLang, chatHistory: history, digest, signal })
+  }
+  return createPageChatSession({
+    pageText: currentPageText,
+    pageSummary: currentPageSummary,
+    lang: targetLang,
+    chatHistory: history,
+    digest,
+    signal
+  })
+}
+
+/**
+ * Record a compaction: mark the messages folded into the digest and show
+ * the marker
+ * Folded turns are matched to messages by role and timestamp. Messages
+ * before the last folded one are marked too: the session never saw them
+ * (error notices, stopped answers), so they must not be restored either.
+ */
+function applyCompaction(compaction: ChatCompaction) {
+  const folded = new Set(compaction.compacted.map(turn => `${turn.role}:${turn.timestamp}`))
+  const lastFolded = chatMessages.map(msg => folded.has(`${msg.role}:${msg.timestamp}`)).lastIndexOf(true)
+  chatMessages.forEach((msg, i) => {
+    if (i <= lastFolded) msg.compacted = true
+  })
+  chatDigest = compaction.digest
+  renderChatUI()
+}
+
+/**
+ * Passages the page chat cites, numbered from 1 (see getChatPassages)
+ */
+function pagePassages(): string[] {
+  if (passageCache?.text !== currentPageText) {
+    passageCache = { text: currentPageText, passages: getChatPassages(currentPageText) }
+  }
+  return passageCache.passages
+}
+
+/**
+ * Render an assistant answer
+ * Passage references such as [3] become citations that scroll to the
+ * passage. In a compare chat, source labels such as [Tab 2] become badges
+ * that show the tab's title on hover.
+ */
+function renderAnswer(text: string): string {
+  const html = renderMarkdown(text)
+  if (!compareSources) return linkCitations(html, pagePassages())
+  return replaceInText(html, /\[(Tab \d+)\]/g, ([, label]) => {
+    const source = compareSources?.find(s => s.label === label)
+    if (!source) return null
+    const title = escapeHtml(source.title || source.url).replace(/"/g, '&quot;')
+    return `<span class="ai-chat-cite" title="${title}">${label}</span>`
+  })
+}
+
+// ============================================================================
+// Compare Chat - Chat about several tabs (see background startCompareChat)
+// ============================================================================
+
+/**
+ * Switch the side panel to a chat about the given tabs
+ * The page's own summary and chat stay stored and come back when the
+ * comparison ends. The session is created right away; if that fails (e.g.
+ * the model needs a download), the first question creates it again.
+ */
+function openCompareChat(sources: CompareSource[]) {
+  pageSummaryAbort?.abort()
+  chatAbort?.abort()
+  destroyPageChatSession()
+  
+  compareSources = sources
+  chatMessages = []
+  chatDigest = undefined
+  isChatMode = true
+  isGeneratingChat = false
+  
+  showSidePanel()
+  renderCompareChat()
+  
+  createPanelChatSession().then((success) => {
+    if (success && compareSources === sources) renderChatUI()
+  })
+}
+
+function endCompareChat() {
+  chatAbort?.abort()
+  destroyPageChatSession()
+  compareSources = null
+  chatMessages = []
+  chatDigest = undefined
+  isChatMode = false
+  isGeneratingChat = false
+  setSidePanelTitle('Page Summary')
+}
+
+function renderCompareChat() {
+  if (!compareSources) return
+  setSidePanelTitle('Compare Pages')
+  
+  const sourcesHtml = compareSources.map(s => `
+    <li class="ai-compare-source" title="${escapeHtml(s.url).replace(/"/g, '&quot;')}">
+      <span class="ai-compare-label">${escapeHtml(s.label)}</span>
+      <span class="ai-compare-title">${escapeHtml(s.title || s.url)}</span>
+    </li>
+  `).join('')
+  
+  sidePanelContentEl!.innerHTML = `
+    <div class="ai-panel-content-wrapper">
+      <div class="ai-panel-text">Comparing ${compareSources.length} tabs. Answers cite the tab each claim comes from.</div>
+      <ul class="ai-compare-sources">${sourcesHtml}</ul>
+    </div>
+    <div class="ai-panel-actions">
+      <button id="__ai_end_compare__">✕ End Comparison</button>
+    </div>
+    <div id="__ai_chat_container__" class="ai-chat-container"></div>
+  `
+  
+  document.getElementById('__ai_end_compare__')?.addEventListener('click', () => {
+    endCompareChat()
+    hideSidePanel()
+  })
+  
+  renderChatUI()
+}
+
+/**
+ * Text and cached summary of this page, for a compare chat in another tab
+ */
+async function getPageContentForMessage(): Promise<{ title: string; url: string; text: string; summary?: string }> {
+  const cached = await getPageSummary(location.href)
+  const text = cached?.text ?? await extractPageText(document)
+  if (!text.trim()) {
+    throw new Error('No readable text found on this page')
   }
+  return { title: document.title || location.href, url: location.href, text, summary: cached?.summary }
 }
 
 function ensureSidePanel() {
@@ -1099,6 +1573,7 @@ function ensureSidePanel() {
       <button class="ai-sidepanel-close" title="Close">x</button>
     </div>
     <div class="ai-sidepanel-body">
+      <div class="ai-download-host" id="__ai_side_downloads__"></div>
       <div class="ai-sidepanel-scroll">
         <div class="ai-sidepanel-content" id="__ai_side_content__"></div>
       </div>
@@ -1107,11 +1582,27 @@ function ensureSidePanel() {
   document.documentElement.appendChild(wrap)
   sidePanelEl = wrap
   sidePanelContentEl = wrap.querySelector('#__ai_side_content__') as HTMLDivElement
+  sidePanelDownloadsEl = wrap.querySelector('#__ai_side_downloads__') as HTMLDivElement
 
   wrap.querySelector('.ai-sidepanel-close')!.addEventListener('click', () => hideSidePanel())
+  
+  // Passage citations in chat answers (see citations.ts)
+  sidePanelContentEl.addEventListener('click', (e) => {
+    const cite = (e.target as HTMLElement).closest<HTMLElement>('.ai-chat-cite[data-passage]')
+    if (!cite) return
+    const passage = pagePassages()[Number(cite.dataset.passage) - 1]
+    if (passage && showPassage(passage)) return
+    cite.classList.add('missing')
+    cite.title = 'This passage is no longer on the page'
+  })
   return wrap
 }
 
+function setSidePanelTitle(title: string) {
+  const titleEl = ensureSidePanel().querySelector('.ai-sidepanel-title')
+  if (titleEl) titleEl.textContent = title
+}
+
 function showSidePanel(initialText?: string) {
   ensureSidePanel()
   sidePanelEl!.classList.add('open')
@@ -1131,40 +1622,151 @@ function hideSidePanel() {
   // if (floatBtnEl) clampFloatIntoView(floatBtnEl)
 }
 
+// Select the AI backend before any AI call (see services/providers)
+const providerReady = loadProviderFromSettings()
+  .then(setAIProvider)
+  .catch(err => console.warn('[AI] Failed to load provider setting:', err))
+
+/**
+ * Retry the side panel's AI call from a click
+ * The click is the user activation a blocked model download needs.
+ */
+async function retrySidePanelAction() {
+  if (!isChatMode) {
+    await openPanelAndSummarizePage(true)
+    return
+  }
+  if (hasPageChatSession()) return
+  await createPanelChatSession(chatMessages.length > 0 ? chatMessages : undefined)
+}
+
+// Show model downloads where the user is waiting, and relay them to the popup
+onModelDownloadProgress((event) => {
+  if (resultBubbleEl && lastBubbleAction) {
+    const { action, langOverride, text, sourceLang } = lastBubbleAction
+    renderDownloadBanner(resultBubbleEl, event, () => handleAction(action, langOverride, text, sourceLang))
+  }
+  if (sidePanelOpen && sidePanelDownloadsEl) {
+    renderDownloadBanner(sidePanelDownloadsEl, event, () => retrySidePanelAction())
+  }
+  const message: ModelDownloadMessage = { type: MODEL_DOWNLOAD_MESSAGE, event }
+  chrome.runtime.sendMessage(message).catch(() => {
+    // No extension page is listening
+  })
+})
+
+// Switch backends when the popup changes them, without a page reload
+onSettingsChanged(['aiProvider', 'localHttp'], () => {
+  loadProviderFromSettings()
+    .then(setAIProvider)
+    .catch(err => console.warn('[AI] Failed to reload provider setting:', err))
+})
+
 ensureTooltip()
+listenForFrameContentRequests()
 
 if (window.self === window.top) {
   ensureFloatingButton()
   
-  setTimeout(() => {
+  setTimeout(async () => {
+    await providerReady
     ensureKeepaliveSession().catch(err => {
       console.log('[AI] Background keepalive session creation skipped:', err.message)
     })
   }, 2000)
+
+  providerReady
+    .then(() => autoTranslatePage())
+    .catch(err => console.warn('[Content] Automatic page translation failed:', err))
 }
 
-chrome.runtime.onMessage.addListener((msg: Msg | any, _s, sendResponse) => {
-  if (window.self !== window.top) {
-    return false
+/**
+ * Run a selection action from a context menu click
+ * The background targets the frame the click came from, so the selection
+ * usually lives here; `menuText` (the text the menu reported) is used when
+ * it does not, as in Chrome's PDF viewer.
+ */
+async function runSelectionAction(action: 'summ' | 'exp' | 'tr', langOverride?: string, menuText?: string): Promise<{ result: string }> {
+  if (getSelectionText()) {
+    return { result: await handleAction(action, langOverride) }
   }
-  
-  if (msg?.type === 'SHOW_FLOAT_AGAIN') {
+  if (!menuText?.trim()) {
+    throw new Error('No text selected')
+  }
+  return { result: await handleAction(action, langOverride, menuText.trim()) }
+}
+
+/**
+ * Summarize the page for a message, failing the request if summarization failed
+ *
+ * @param resume - Opened to resume the stored chat (see openPanelAndSummarizePage)
+ */
+async function summarizePageForMessage(resume = false): Promise<{ summary: string }> {
+  const summary = await openPanelAndSummarizePage(false, resume)
+  if (summary === null) {
+    throw new Error('Failed to summarize this page')
+  }
+  return { summary }
+}
+
+const messageHandlers: MsgHandlers = {
+  PING: () => ({ url: location.href }),
+  SUMMARIZE_PAGE: () => {
+    if (compareSources) endCompareChat()
+    return summarizePageForMessage()
+  },
+  SUMMARIZE_SELECTION: (msg) => runSelectionAction('summ', undefined, msg.text),
+  EXPLAIN_SELECTION: (msg) => runSelectionAction('exp', undefined, msg.text),
+  TRANSLATE_SELECTION: (msg) => runSelectionAction('tr', msg.targetLang, msg.text),
+  TRANSLATE_PAGE: async (msg) => {
+    const blocks = await translatePage(msg.targetLang)
+    if (blocks === 0) {
+      throw new Error('No readable text found on this page')
+    }
+    return { blocks }
+  },
+  GET_PAGE_CONTENT: () => getPageContentForMessage(),
+  OPEN_COMPARE_CHAT: (msg) => {
+    openCompareChat(msg.sources)
+    return { sources: msg.sources.length }
+  },
+  RESUME_PAGE_CHAT: async () => {
+    if (compareSources) endCompareChat()
+    // A chat about other content is kept and 0 is reported, so the library says the page changed
+    await summarizePageForMessage(true)
+    return { messages: chatMessages.length }
+  },
+  TOGGLE_PANEL: async () => {
+    if (sidePanelOpen) {
+      hideSidePanel()
+      return { open: false }
+    }
+    if (compareSources) {
+      showSidePanel()
+      return { open: true }
+    }
+    await summarizePageForMessage()
+    return { open: true }
+  },
+  SHOW_FLOAT_AGAIN: async () => {
     const node = ensureFloatingButton()
     node.style.display = 'block'
     node.style.left = '24px'
     node.style.top = `${window.innerHeight - 64 - 24}px`
     node.style.right = 'auto'
     node.style.bottom = 'auto'
-    setSetting('floatHidden', false)
-    sendResponse({ ok: true }); return true
-  }
-      
-  if (msg?.type === 'SUMMARIZE_PAGE') {
-    (async () => { await openPanelAndSummarizePage(); sendResponse({ ok: true }) })()
-    return true
-  }
-  return false
-})
+    await setSetting('floatHidden', false)
+    return { visible: true }
+  },
+}
+
+// Page-level messages are handled by the top frame only; selection messages
+// are delivered to the frame that owns the selection
+const SELECTION_MESSAGES: MsgType[] = ['SUMMARIZE_SELECTION', 'EXPLAIN_SELECTION', 'TRANSLATE_SELECTION']
+
+chrome.runtime.onMessage.addListener(createMessageRouter(messageHandlers, {
+  accepts: (msg) => window.self === window.top || SELECTION_MESSAGES.includes(msg.type)
+}))
 
 window.addEventListener('beforeunload', () => {
   destroyResources()
@@ -0,0 +1,24 @@
+/**
+ * Page Chat - Restoring a stored page chat when the side panel opens
+ *
+ * A stored chat is only continued when it was held about the page content
+ * now in the panel (same content hash). A chat about other content is
+ * cleared when the panel opens normally, but kept when it opens to resume
+ * that chat from the conversation library: the caller then reports that the
+ * page has changed, and the chat stays in the library.
+ */
+
+import { clearPageChatHistory, getPageChatHistory, type PageChatHistory } from '../services/storage'
+
+/**
+ * The stored chat for a page, if it was held about the given content
+ *
+ * @param contentHash - Hash of the page text now shown in the panel
+ * @param resume - Keep a chat about other content instead of clearing it
+ */
+export async function loadPageChat(url: string, contentHash: string, resume = false): Promise<PageChatHistory | null> {
+  const history = await getPageChatHistory(url)
+  if (history && history.contentHash === contentHash) return history
+  if (history && !resume) await clearPageChatHistory(url)
+  return null
+}
@@ -0,0 +1,228 @@
+/**
+ * Page Translation - Bilingual or in-place translation of the whole page
+ *
+ * Walks the readable blocks found by domExtract, translates them in batches
+ * through the cached Translator and injects each translation under its block
+ * ('below', side by side with the original) or in place of the block's
+ * content ('replace'). A bar at the top of the page shows progress and
+ * offers cancel, revert, the mode switch and the per-site "always translate"
+ * rule (setting 'alwaysTranslateSites', a list of hostnames).
+ */
+
+import { findReadableBlocks } from '../services/domExtract'
+import { translateBlocks } from '../services/aiService'
+import { getSetting, setSetting } from '../services/storage'
+import { languageName } from '../utils/languages'
+
+export type PageTranslateMode = 'below' | 'replace'
+
+type TranslatedBlock = {
+  el: HTMLElement
+  original: Node[]                         // Child nodes before translation, restored on revert
+  translation: string
+}
+
+// Blocks per Translator round trip; progress is updated between batches
+const BATCH_SIZE = 8
+
+let translatedBlocks: TranslatedBlock[] = []
+let translateAbort: AbortController | null = null
+let currentMode: PageTranslateMode = 'below'
+let barEl: HTMLDivElement | null = null
+
+// ============================================================================
+// Per-site Rule
+// ============================================================================
+
+async function getAlwaysTranslateSites(): Promise<string[]> {
+  return (await getSetting<string[]>('alwaysTranslateSites')) || []
+}
+
+async function setAlwaysTranslate(host: string, enabled: boolean) {
+  const sites = (await getAlwaysTranslateSites()).filter(h => h !== host)
+  await setSetting('alwaysTranslateSites', enabled ? [...sites, host] : sites)
+}
+
+// ============================================================================
+// Block Injection
+// ============================================================================
+
+/**
+ * Undo the injection of one block (either mode)
+ */
+function restoreBlock(block: TranslatedBlock) {
+  const { el } = block
+  if (el.dataset.aiTranslated === 'replace') {
+    el.replaceChildren(...block.original)
+  } else {
+    el.querySelectorAll(':scope > .ai-page-translation').forEach(n => n.remove())
+  }
+  delete el.dataset.aiTranslated
+}
+
+function applyMode(block: TranslatedBlock, mode: PageTranslateMode, targetLang: string) {
+  restoreBlock(block)
+  const { el } = block
+
+  if (mode === 'replace') {
+    el.replaceChildren(document.createTextNode(block.translation))
+  } else {
+    // A span keeps the markup valid inside <p> and headings; CSS makes it a block
+    const span = document.createElement('span')
+    span.className = 'ai-page-translation'
+    span.lang = targetLang
+    span.textContent = block.translation
+    el.appendChild(span)
+  }
+  el.dataset.aiTranslated = mode
+}
+
+// ============================================================================
+// Progress Bar
+// ============================================================================
+
+function ensureBar(): HTMLDivElement {
+  if (barEl) return barEl
+
+  const bar = document.createElement('div')
+  bar.id = '__ai_page_translate_bar__'
+  bar.className = 'ai-translate-bar'
+  bar.innerHTML = `
+    <span class="ai-translate-status"></span>
+    <div class="ai-translate-progress"><div class="ai-translate-progress-fill"></div></div>
+    <select class="ai-translate-mode" title="How translations are shown">
+      <option value="below">Side by side</option>
+      <option value="replace">Replace original</option>
+    </select>
+    <label class="ai-translate-always"><input type="checkbox"> Always translate this site</label>
+    <button data-act="cancel">Cancel</button>
+    <button data-act="revert">Show original</button>
+  `
+  document.documentElement.appendChild(bar)
+  barEl = bar
+
+  const modeSelect = bar.querySelector('.ai-translate-mode') as HTMLSelectElement
+  modeSelect.value = currentMode
+  modeSelect.addEventListener('change', () => {
+    const mode = modeSelect.value as PageTranslateMode
+    currentMode = mode
+    setSetting('pageTranslateMode', mode)
+    const targetLang = bar.dataset.targetLang || 'en'
+    translatedBlocks.forEach(b => applyMode(b, mode, targetLang))
+  })
+
+  const always = bar.querySelector('.ai-translate-always input') as HTMLInputElement
+  getAlwaysTranslateSites().then(sites => { always.checked = sites.includes(location.hostname) })
+  always.addEventListener('change', () => {
+    setAlwaysTranslate(location.hostname, always.checked)
+  })
+
+  bar.querySelector('[data-act="cancel"]')!.addEventListener('click', () => cancelPageTranslation())
+  bar.querySelector('[data-act="revert"]')!.addEventListener('click', () => revertPageTranslation())
+  return bar
+}
+
+function updateBar(status: string, done: number, total: number, running: boolean) {
+  const bar = ensureBar()
+  bar.querySelector('.ai-translate-status')!.textContent = status
+  const fill = bar.querySelector('.ai-translate-progress-fill') as HTMLDivElement
+  fill.style.width = `${total ? Math.round((done / total) * 100) : 0}%`
+  ;(bar.querySelector('.ai-translate-progress') as HTMLDivElement).style.display = running ? '' : 'none'
+  ;(bar.querySelector('[data-act="cancel"]') as HTMLButtonElement).style.display = running ? '' : 'none'
+}
+
+// ============================================================================
+// Public API
+// ============================================================================
+
+/**
+ * Translate the readable blocks of the page
+ * Reverts any previous translation first and uses the last chosen mode.
+ * Resolves with the number of blocks found as soon as translation starts;
+ * the bar shows its progress.
+ */
+export async function translatePage(targetLang: string): Promise<number> {
+  revertPageTranslation()
+  currentMode = (await getSetting<PageTranslateMode>('pageTranslateMode')) || 'below'
+
+  const els = findReadableBlocks()
+  if (els.length === 0) return 0
+
+  const controller = new AbortController()
+  translateAbort = controller
+  ensureBar().dataset.targetLang = targetLang
+  updateBar(`Translating to ${languageName(targetLang)}… 0 / ${els.length}`, 0, els.length, true)
+
+  runTranslation(els, targetLang, controller).finally(() => {
+    if (translateAbort === controller) translateAbort = null
+  })
+  return els.length
+}
+
+async function runTranslation(els: HTMLElement[], targetLang: string, controller: AbortController) {
+  const { signal } = controller
+  let sourceLang: string | undefined
+
+  try {
+    for (let i = 0; i < els.length; i += BATCH_SIZE) {
+      const batch = els.slice(i, i + BATCH_SIZE)
+      const result = await translateBlocks(batch.map(el => el.innerText.trim()), { targetLang, sourceLang, signal })
+      if (signal.aborted) return
+
+      if (!sourceLang && result.sourceLang === targetLang) {
+        updateBar(`This page is already in ${languageName(targetLang)}.`, 0, 0, false)
+        return
+      }
+      sourceLang = result.sourceLang
+
+      batch.forEach((el, j) => {
+        const block = { el, original: Array.from(el.childNodes), translation: result.translations[j] }
+        translatedBlocks.push(block)
+        applyMode(block, currentMode, targetLang)
+      })
+
+      const done = i + batch.length
+      updateBar(`Translating ${languageName(sourceLang)} → ${languageName(targetLang)}… ${done} / ${els.length}`, done, els.length, true)
+    }
+
+    updateBar(`Translated from ${languageName(sourceLang!)} to ${languageName(targetLang)}`, els.length, els.length, false)
+  } catch (e) {
+    if (signal.aborted) return
+    console.error('[Content] Page translation failed:', e)
+    updateBar(`⚠️ ${e instanceof Error ? e.message : String(e)}`, 0, 0, false)
+  }
+}
+
+/**
+ * Stop translating; blocks translated so far stay translated
+ */
+export function cancelPageTranslation() {
+  if (!translateAbort) return
+  translateAbort.abort()
+  translateAbort = null
+  updateBar(`Cancelled after ${translatedBlocks.length} blocks`, 0, 0, false)
+}
+
+/**
+ * Stop translating, restore every block and remove the bar
+ */
+export function revertPageTranslation() {
+  translateAbort?.abort()
+  translateAbort = null
+  translatedBlocks.forEach(restoreBlock)
+  translatedBlocks = []
+  barEl?.remove()
+  barEl = null
+}
+
+/**
+ * Translate the page on load when its site has the "always translate" rule
+ */
+export async function autoTranslatePage() {
+  const sites = await getAlwaysTranslateSites()
+  if (!sites.includes(location.hostname)) return
+
+  const targetLang = (await getSetting<string>('targetLang')) || 'en'
+  console.log(`[Content] Always-translate rule for ${location.hostname}, translating to ${targetLang}`)
+  await translatePage(targetLang)
+}
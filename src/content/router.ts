@@ -0,0 +1,59 @@
+/**
+ * Content Script Message Router
+ *
+ * Dispatches every Msg variant sent by the background worker or popup to a
+ * typed handler and answers with a MsgResponse envelope. Handlers may be sync
+ * or async; thrown errors are reported back to the sender as 'handler-error'
+ * instead of being swallowed.
+ */
+
+import { isMsg, type Msg, type MsgOf, type MsgResponse, type MsgType, type ResponseOf } from '../utils/messaging'
+
+export type MsgHandlers = {
+  [K in MsgType]: (msg: MsgOf<K>) => ResponseOf<K> | Promise<ResponseOf<K>>
+}
+
+export type RouterOptions = {
+  /**
+   * Decide whether this frame should answer a message.
+   * Returning false lets another frame (or nobody) respond.
+   */
+  accepts?: (msg: Msg) => boolean
+}
+
+/**
+ * Run the handler for a message and wrap its result in a MsgResponse
+ */
+export async function dispatchMessage<T extends MsgType>(handlers: MsgHandlers, msg: MsgOf<T>): Promise<MsgResponse<T>> {
+  try {
+    const handler = handlers[msg.type] as (m: MsgOf<T>) => ResponseOf<T> | Promise<ResponseOf<T>>
+    const data = await handler(msg)
+    return { ok: true, data }
+  } catch (e) {
+    console.error(`[Router] ${msg.type} failed:`, e)
+    return {
+      ok: false,
+      error: { code: 'handler-error', message: e instanceof Error ? e.message : String(e) }
+    }
+  }
+}
+
+/**
+ * Create a chrome.runtime.onMessage listener bound to the given handlers
+ *
+ * @example
+ * ```ts
+ * chrome.runtime.onMessage.addListener(createMessageRouter(handlers, {
+ *   accepts: () => window.self === window.top
+ * }))
+ * ```
+ */
+export function createMessageRouter(handlers: MsgHandlers, opts: RouterOptions = {}) {
+  return (msg: unknown, _sender: chrome.runtime.MessageSender, sendResponse: (res: MsgResponse) => void): boolean => {
+    if (!isMsg(msg)) return false
+    if (opts.accepts && !opts.accepts(msg)) return false
+
+    dispatchMessage(handlers, msg).then(sendResponse)
+    return true  // Keep the channel open for the async response
+  }
+}
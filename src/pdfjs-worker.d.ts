@@ -0,0 +1,4 @@
+// pdf.js ships no type declarations for its worker module
+declare module 'pdfjs-dist/build/pdf.worker.mjs' {
+  export const WorkerMessageHandler: unknown
+}
@@ -0,0 +1,275 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  askPageQuestion,
+  createPageChatSession,
+  destroyPageChatSession,
+  explain,
+  getCapabilityReport,
+  getPageChatTokenUsage,
+  hasPageChatSession,
+  setAIProvider,
+  summarize,
+  summarizeText,
+  translate,
+  type ChatCompaction,
+} from './aiService'
+import { chromeProvider } from './providers/chrome'
+import { createMockProvider, type MockChatTurn, type MockScript } from './providers/mock'
+
+const ARTICLE = 'The tide rises twice a day. It is driven by the moon. Coastal towns plan around it. Fishermen read the tables every morning.'
+
+function useMock(script: MockScript = {}) {
+  setAIProvider(createMockProvider({ streamChunkSize: 8, ...script }))
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  destroyPageChatSession()
+  setAIProvider(chromeProvider)
+  vi.restoreAllMocks()
+})
+
+describe('summarize', () => {
+  it('streams the summary in growing chunks', async () => {
+    useMock()
+    const chunks: string[] = []
+    const summary = await summarize(ARTICLE, { onChunk: (c) => chunks.push(c) })
+    expect(summary).toBe('Mock summary: The tide rises twice a day. It is driven by the moon. Coastal towns plan around it.')
+    expect(chunks.length).toBeGreaterThan(1)
+    expect(chunks.at(-1)).toBe(summary)
+  })
+
+  it('passes the summary style to the summarizer', async () => {
+    useMock()
+    const summary = await summarize(ARTICLE, { type: 'key-points' })
+    expect(summary.split('\n')).toEqual([
+      '- The tide rises twice a day.',
+      '- It is driven by the moon.',
+      '- Coastal towns plan around it.',
+    ])
+  })
+
+  it('refuses text that is too short', async () => {
+    useMock()
+    await expect(summarize('Too short.')).resolves.toMatch(/too short/)
+  })
+
+  it('summarizes in English and translates for languages the model cannot write', async () => {
+    useMock({ translate: (text, source, target) => `${target}(${source}): ${text}` })
+    const summary = await summarize(ARTICLE, { lang: 'fr' })
+    expect(summary).toMatch(/^fr\(en\): Mock summary: The tide rises/)
+  })
+
+  it('does not translate notices', async () => {
+    const translate = vi.fn((text: string) => text)
+    useMock({ translate })
+    await expect(summarize('Too short.', { lang: 'fr' })).resolves.toMatch(/^⚠️ .* too short/)
+    expect(translate).not.toHaveBeenCalled()
+  })
+
+  it('translates output that happens to contain a warning sign', async () => {
+    useMock({ summarize: () => '⚠️ Storm warning issued for the coast.', translate: (text, _source, target) => `${target}: ${text}` })
+    await expect(summarize(ARTICLE, { lang: 'fr' })).resolves.toMatch(/^fr: ⚠️ Storm warning/)
+  })
+
+  it('tells notices from summaries that start with a warning sign', async () => {
+    useMock({ summarize: () => '⚠️ Storm warning issued for the coast.' })
+    await expect(summarizeText('Too short.')).resolves.toEqual({ notice: expect.stringMatching(/too short/) })
+    await expect(summarizeText(ARTICLE)).resolves.toBe('⚠️ Storm warning issued for the coast.')
+  })
+
+  it('returns an empty result when aborted', async () => {
+    useMock({ streamDelayMs: 5 })
+    const controller = new AbortController()
+    const pending = summarize(ARTICLE, { signal: controller.signal, onChunk: () => controller.abort() })
+    await expect(pending).resolves.toBe('')
+  })
+})
+
+describe('summarize long documents', () => {
+  // Paragraphs of about 1,000 characters; twelve fill a chunk
+  const paragraph = (i: number) => `Paragraph ${i}. ${'The tide rises and falls with the moon. '.repeat(25)}`
+  const longText = (paragraphs: number) => Array.from({ length: paragraphs }, (_, i) => paragraph(i)).join('\n\n')
+
+  it('stops reducing when the summaries no longer shrink', async () => {
+    const summarizeChunk = vi.fn((text: string) => text)
+    useMock({ summarize: summarizeChunk, streamChunkSize: 5000 })
+    const summary = await summarize(longText(40))
+
+    expect(summary).toMatch(/📄 Covered 100% of the page/)
+    // Four chunks, one reduce round over the same four groups, then the final pass
+    expect(summarizeChunk).toHaveBeenCalledTimes(9)
+    // The final pass gets the summaries cut to a single-pass input
+    expect(summarizeChunk.mock.calls[8][0].length).toBeLessThanOrEqual(20000)
+  })
+
+  it('reports the sections left out beyond the chunk limit', async () => {
+    useMock({ summarize: () => 'Section summary.', streamChunkSize: 5000 })
+    const summary = await summarize(longText(12 * 26))
+    expect(summary).toMatch(/The last \d+ sections were not summarized\.$/)
+  })
+})
+
+describe('explain', () => {
+  it('prompts with the term, page and context', async () => {
+    const prompts: string[] = []
+    useMock({ prompt: (input) => { prompts.push(input); return 'A tide is the rise and fall of the sea.' } })
+    const answer = await explain('tide', { context: ARTICLE, pageTitle: 'Tides', heading: 'Basics' })
+    expect(answer).toBe('A tide is the rise and fall of the sea.')
+    expect(prompts[0]).toContain('Explain: "tide"')
+    expect(prompts[0]).toContain('Page: Tides')
+    expect(prompts[0]).toContain('Section: Basics')
+    expect(prompts[0]).toContain('Context: The tide rises twice a day.')
+  })
+
+  it('streams the explanation', async () => {
+    useMock()
+    const chunks: string[] = []
+    const answer = await explain('moon', { onChunk: (c) => chunks.push(c) })
+    expect(answer).toMatch(/^Mock answer to /)
+    expect(chunks.at(-1)).toBe(answer)
+  })
+})
+
+describe('translate', () => {
+  it('detects the source language and translates', async () => {
+    useMock({ detect: () => [{ detectedLanguage: 'es', confidence: 0.95 }] })
+    const result = await translate('hola', { targetLang: 'en' })
+    expect(result).toEqual({ text: '[es→en] hola', sourceLang: 'es', confidence: 0.95 })
+  })
+
+  it('uses a given source language without detecting', async () => {
+    const detect = vi.fn(() => [{ detectedLanguage: 'es', confidence: 1 }])
+    useMock({ detect })
+    const result = await translate('hello', { targetLang: 'ja', sourceLang: 'en' })
+    expect(result).toEqual({ text: '[en→ja] hello', sourceLang: 'en', confidence: null })
+    expect(detect).not.toHaveBeenCalled()
+  })
+
+  it('returns the text unchanged when it is already in the target language', async () => {
+    useMock()
+    await expect(translate('hello', { targetLang: 'en' })).resolves.toMatchObject({ text: 'hello', sourceLang: 'en' })
+  })
+})
+
+describe('page chat', () => {
+  it('answers follow-up questions in one session', async () => {
+    const histories: MockChatTurn[][] = []
+    useMock({ prompt: (input, history) => { histories.push(history); return `Answer ${histories.length}: ${input}` } })
+
+    expect(await createPageChatSession({ pageText: ARTICLE, pageSummary: 'Tides follow the moon.' })).toBe(true)
+    expect(hasPageChatSession()).toBe(true)
+
+    expect(await askPageQuestion('What drives the tide?')).toBe('Answer 1: What drives the tide?')
+    const chunks: string[] = []
+    expect(await askPageQuestion('How often?', { onChunk: (c) => chunks.push(c) })).toBe('Answer 2: How often?')
+    expect(chunks.at(-1)).toBe('Answer 2: How often?')
+
+    // The system prompt carries the page; the second question sees the first exchange
+    expect(histories[0][0].role).toBe('system')
+    expect(histories[0][0].content).toContain('The tide rises twice a day.')
+    expect(histories[1].slice(-2)).toEqual([
+      { role: 'user', content: 'What drives the tide?' },
+      { role: 'assistant', content: 'Answer 1: What drives the tide?' },
+    ])
+    expect(getPageChatTokenUsage()?.usage).toBeGreaterThan(0)
+  })
+
+  it('restores earlier turns into a new session', async () => {
+    const histories: MockChatTurn[][] = []
+    useMock({ prompt: (_input, history) => { histories.push(history); return 'ok' } })
+    await createPageChatSession({
+      pageText: ARTICLE,
+      pageSummary: 'Tides follow the moon.',
+      chatHistory: [{ role: 'user', content: 'Earlier question' }, { role: 'assistant', content: 'Earlier answer' }],
+    })
+    await askPageQuestion('Next question')
+    expect(histories[0]).toContainEqual({ role: 'user', content: 'Earlier question' })
+    expect(histories[0]).toContainEqual({ role: 'assistant', content: 'Earlier answer' })
+  })
+
+  it('reports compacted turns with the timestamps they were asked with', async () => {
+    useMock({
+      inputQuota: 1500,
+      prompt: (input) => input.includes('Conversation to add') ? 'Short digest' : `Answer: ${'tide '.repeat(80)}`,
+    })
+    await createPageChatSession({ pageText: ARTICLE, pageSummary: 'Tides follow the moon.' })
+
+    const compactions: ChatCompaction[] = []
+    for (let i = 1; i <= 5; i++) {
+      await askPageQuestion(`Question ${i}?`, {
+        onCompact: (c) => compactions.push(c),
+        timestamps: { question: i * 10, answer: i * 10 + 1 },
+      })
+    }
+    // Each compaction folds the exchange before the two kept ones
+    expect(compactions.map(c => c.compacted.map(turn => [turn.role, turn.timestamp]))).toEqual([
+      [['user', 10], ['assistant', 11]],
+      [['user', 20], ['assistant', 21]],
+    ])
+    expect(compactions[0].digest).toBe('Short digest')
+  })
+
+  it('cuts long page content to fit half of the quota', async () => {
+    const histories: MockChatTurn[][] = []
+    useMock({ inputQuota: 4000, prompt: (_input, history) => { histories.push(history); return 'ok' } })
+    const longPage = Array.from({ length: 600 }, (_, i) => `Sentence ${i} is about tides and the moon.${i % 10 === 9 ? '\n\n' : ' '}`).join('')
+
+    expect(await createPageChatSession({ pageText: longPage, pageSummary: 'Tides follow the moon.' })).toBe(true)
+    await askPageQuestion('What drives the tide?')
+
+    const systemPrompt = histories[0][0].content
+    expect(systemPrompt).toContain('Sentence 0 is about tides')
+    expect(systemPrompt).not.toContain('Sentence 599')
+    expect(getPageChatTokenUsage()!.quota).toBe(4000)
+    expect(Math.ceil(systemPrompt.length / 4)).toBeLessThanOrEqual(2000)
+  })
+
+  it('does not compact turns that take a small share of the quota', async () => {
+    // A page that fills most of the quota on its own
+    useMock({ inputQuota: 1500, prompt: () => 'Short answer.' })
+    const page = Array.from({ length: 110 }, (_, i) => `Sentence ${i} is about tides.`).join(' ')
+    await createPageChatSession({ pageText: page, pageSummary: 'Tides follow the moon.' })
+
+    const onCompact = vi.fn()
+    for (let i = 1; i <= 4; i++) {
+      expect(await askPageQuestion(`Question ${i}?`, { onCompact })).toBe('Short answer.')
+    }
+    expect(onCompact).not.toHaveBeenCalled()
+  })
+
+  it('has no session once destroyed', async () => {
+    useMock()
+    await createPageChatSession({ pageText: ARTICLE, pageSummary: 'Tides follow the moon.' })
+    destroyPageChatSession()
+    expect(hasPageChatSession()).toBe(false)
+    expect(getPageChatTokenUsage()).toBeNull()
+  })
+})
+
+describe('getCapabilityReport', () => {
+  it('checks English into every target language the models cannot write', async () => {
+    const checked: string[] = []
+    const provider = createMockProvider()
+    const translator = provider.translator!
+    setAIProvider({
+      ...provider,
+      translator: {
+        ...translator,
+        availability: async (options) => {
+          checked.push(`${options.sourceLanguage}-${options.targetLanguage}`)
+          return options.targetLanguage === 'kn' ? 'downloadable' : 'available'
+        },
+      },
+    })
+
+    const report = await getCapabilityReport()
+    expect(checked).toEqual(expect.arrayContaining(['en-ja', 'ja-es', 'es-en', 'en-fr', 'en-kn', 'en-zh-Hant']))
+    expect(checked).not.toContain('fr-en')
+    expect(report.translators.find(s => s.languages?.target === 'kn')?.availability).toBe('downloadable')
+  })
+})
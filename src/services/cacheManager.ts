@@ -0,0 +1,207 @@
+/**
+ * Cache Manager - Size budget and eviction for page caches
+ *
+ * pageSummaries and pageChatHistory grow with every page the user visits.
+ * This module keeps them bounded by:
+ * - TTL: entries older than ttlMs are dropped
+ * - Entry count: at most maxEntries per cache
+ * - Size: at most maxBytes per cache (JSON-encoded size)
+ *
+ * Eviction is least-recently-used based on each entry's `timestamp` (the
+ * last time it was written). Page summaries saved to notes (`isSaved`) are
+ * never evicted, but still count towards the budget. Entry sizes are stored
+ * with each record on write (see withSize), so a budget check walks the
+ * cache without re-encoding it.
+ *
+ * Runs in the extension origin only (it opens IndexedDB directly).
+ */
+
+import { getDB } from './db'
+import { getSetting, notifyChanged, setSetting } from './storage'
+
+export type CacheName = 'pageSummaries' | 'pageChatHistory'
+
+export const CACHE_NAMES: CacheName[] = ['pageSummaries', 'pageChatHistory']
+
+export type CacheLimits = {
+  maxEntries: number     // Max entries per cache
+  maxBytes: number       // Max total size per cache
+  ttlMs: number          // Max age of an entry
+}
+
+export const DEFAULT_CACHE_LIMITS: CacheLimits = {
+  maxEntries: 200,
+  maxBytes: 20 * 1024 * 1024,
+  ttlMs: 30 * 24 * 60 * 60 * 1000,
+}
+
+export type CacheStats = {
+  name: CacheName
+  entries: number
+  bytes: number
+  exempt: number             // Entries that are never evicted
+  oldest?: number            // Oldest entry timestamp
+  newest?: number            // Newest entry timestamp
+}
+
+export type EvictionReport = {
+  name: CacheName
+  expired: number            // Removed because of TTL
+  evicted: number            // Removed to fit the entry/size budget
+  freedBytes: number
+}
+
+type CacheRecord = { url: string; timestamp: number; bytes?: number; isSaved?: boolean }
+
+type CacheEntry = {
+  url: string
+  timestamp: number
+  bytes: number
+  exempt: boolean
+}
+
+const encoder = new TextEncoder()
+
+function sizeOf(value: unknown): number {
+  return encoder.encode(JSON.stringify(value)).length
+}
+
+/**
+ * A cache record with its encoded size in `bytes`, as stored on write
+ * The budget walk then reads sizes without re-encoding every record.
+ */
+export function withSize<T extends object>(record: T): T & { bytes: number } {
+  // A previous size is left out of the measurement (JSON drops undefined)
+  return { ...record, bytes: sizeOf({ ...record, bytes: undefined }) }
+}
+
+function toEntry(record: CacheRecord): CacheEntry {
+  return {
+    url: record.url,
+    timestamp: record.timestamp || 0,
+    bytes: record.bytes ?? sizeOf(record),   // Records imported from legacy storage have no size
+    exempt: !!record.isSaved,
+  }
+}
+
+/**
+ * Get the configured limits (settings key 'cacheLimits'), filled with defaults
+ */
+export async function getCacheLimits(): Promise<CacheLimits> {
+  const saved = await getSetting<Partial<CacheLimits>>('cacheLimits')
+  return { ...DEFAULT_CACHE_LIMITS, ...saved }
+}
+
+/**
+ * Update some or all of the cache limits
+ */
+export async function setCacheLimits(limits: Partial<CacheLimits>): Promise<CacheLimits> {
+  const next = { ...(await getCacheLimits()), ...limits }
+  await setSetting('cacheLimits', next)
+  return next
+}
+
+/**
+ * Get entry count and size of one cache
+ */
+export async function getCacheStats(name: CacheName): Promise<CacheStats> {
+  const db = await getDB()
+  const stats: CacheStats = { name, entries: 0, bytes: 0, exempt: 0 }
+
+  let cursor = await db.transaction(name).store.index('by-timestamp').openCursor()
+  while (cursor) {
+    const entry = toEntry(cursor.value)
+    stats.entries++
+    stats.bytes += entry.bytes
+    if (entry.exempt) stats.exempt++
+    stats.oldest ??= entry.timestamp
+    stats.newest = entry.timestamp
+    cursor = await cursor.continue()
+  }
+  return stats
+}
+
+/**
+ * Evict expired and least recently used entries until the cache fits its budget
+ *
+ * Walks the cache newest first, adding up stored entry sizes. Entries stay
+ * while they fit; from the first one that does not (or has expired), every
+ * older evictable entry is removed. Saved entries always stay and use up
+ * budget for the entries older than them.
+ */
+export async function enforceCacheBudget(name: CacheName, limits?: CacheLimits): Promise<EvictionReport> {
+  const { maxEntries, maxBytes, ttlMs } = limits ?? await getCacheLimits()
+  const report: EvictionReport = { name, expired: 0, evicted: 0, freedBytes: 0 }
+
+  const cutoff = Date.now() - ttlMs
+  let count = 0
+  let bytes = 0
+  let full = false
+
+  const db = await getDB()
+  const tx = db.transaction(name, 'readwrite')
+  let cursor = await tx.store.index('by-timestamp').openCursor(null, 'prev')
+  while (cursor) {
+    const entry = toEntry(cursor.value)
+    const expired = entry.timestamp < cutoff
+    full ||= !expired && (count + 1 > maxEntries || bytes + entry.bytes > maxBytes)
+
+    if (entry.exempt || (!expired && !full)) {
+      count++
+      bytes += entry.bytes
+    } else {
+      await cursor.delete()
+      report.freedBytes += entry.bytes
+      if (expired) report.expired++
+      else report.evicted++
+    }
+    cursor = await cursor.continue()
+  }
+  await tx.done
+
+  if (report.expired + report.evicted > 0) {
+    notifyChanged(name)
+    console.log(`[Cache] ${name}: removed ${report.expired} expired + ${report.evicted} LRU entries (${report.freedBytes} bytes)`)
+  }
+
+  return report
+}
+
+/**
+ * Enforce the budget on every cache
+ */
+export async function enforceAllCacheBudgets(): Promise<EvictionReport[]> {
+  const limits = await getCacheLimits()
+  const reports: EvictionReport[] = []
+  for (const name of CACHE_NAMES) {
+    reports.push(await enforceCacheBudget(name, limits))
+  }
+  return reports
+}
+
+/**
+ * Remove every evictable entry of a cache (saved summaries are kept)
+ *
+ * @returns Number of removed entries
+ */
+export async function purgeCache(name: CacheName): Promise<number> {
+  const db = await getDB()
+  const tx = db.transaction(name, 'readwrite')
+  let removed = 0
+
+  let cursor = await tx.store.openCursor()
+  while (cursor) {
+    if (!toEntry(cursor.value).exempt) {
+      await cursor.delete()
+      removed++
+    }
+    cursor = await cursor.continue()
+  }
+  await tx.done
+
+  if (removed > 0) {
+    notifyChanged(name)
+    console.log(`[Cache] ${name}: purged ${removed} entries`)
+  }
+  return removed
+}
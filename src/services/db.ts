@@ -0,0 +1,153 @@
+/**
+ * IndexedDB Schema - Extension-origin database for notes and caches
+ *
+ * Object stores:
+ * - notes: Saved notes (keyed by id, indexed by url, kind and createdAt)
+ * - pageSummaries: Cached page summaries (keyed by url, indexed by timestamp)
+ * - pageChatHistory: Page chat conversations (keyed by url, indexed by timestamp)
+ * - meta: Internal bookkeeping (e.g. legacy import flag)
+ *
+ * The schema is versioned: each entry in MIGRATIONS upgrades the database
+ * from the previous version, so existing installs step through every
+ * migration in order. Bump DB_VERSION and add a migration to change it.
+ *
+ * Only extension pages (popup, background) may open this database.
+ * Content scripts run in the web page's origin and go through storage.ts,
+ * which forwards their calls to the background worker.
+ */
+
+import { openDB, type DBSchema, type IDBPDatabase, type IDBPTransaction, type StoreNames } from 'idb'
+import type { Note } from '../utils/messaging'
+import type { PageChatHistory, PageSummaryCache } from './storage'
+
+const DB_NAME = 'ai-companion'
+export const DB_VERSION = 1
+
+// `bytes` is the record's encoded size, stored on write for the cache budget
+// (see cacheManager.ts); records imported from legacy storage have none
+export type PageSummaryRecord = PageSummaryCache & { url: string; bytes?: number }
+export type PageChatHistoryRecord = PageChatHistory & { url: string; bytes?: number }
+
+export interface CompanionDB extends DBSchema {
+  notes: {
+    key: string
+    value: Note
+    indexes: { 'by-url': string; 'by-kind': string; 'by-createdAt': number }
+  }
+  pageSummaries: {
+    key: string
+    value: PageSummaryRecord
+    indexes: { 'by-timestamp': number }
+  }
+  pageChatHistory: {
+    key: string
+    value: PageChatHistoryRecord
+    indexes: { 'by-timestamp': number }
+  }
+  meta: {
+    key: string
+    value: unknown
+  }
+}
+
+type UpgradeTx = IDBPTransaction<CompanionDB, StoreNames<CompanionDB>[], 'versionchange'>
+type Migration = (db: IDBPDatabase<CompanionDB>, tx: UpgradeTx) => void
+
+/**
+ * Schema migrations, keyed by the version they upgrade to
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  1: (db) => {
+    const notes = db.createObjectStore('notes', { keyPath: 'id' })
+    notes.createIndex('by-url', 'sourceUrl')
+    notes.createIndex('by-kind', 'kind')
+    notes.createIndex('by-createdAt', 'createdAt')
+
+    const summaries = db.createObjectStore('pageSummaries', { keyPath: 'url' })
+    summaries.createIndex('by-timestamp', 'timestamp')
+
+    const chats = db.createObjectStore('pageChatHistory', { keyPath: 'url' })
+    chats.createIndex('by-timestamp', 'timestamp')
+
+    db.createObjectStore('meta')
+  },
+}
+
+// Keys used by the chrome.storage.local layout before IndexedDB
+const LEGACY_NOTES_KEY = 'notes'
+const LEGACY_PAGE_SUMMARIES_KEY = 'pageSummaries'
+const LEGACY_PAGE_CHAT_HISTORY_KEY = 'pageChatHistory'
+const LEGACY_IMPORTED_FLAG = 'legacyImported'
+
+let dbPromise: Promise<IDBPDatabase<CompanionDB>> | null = null
+
+/**
+ * Open (and upgrade, if needed) the database
+ * The connection is opened once per context and reused.
+ */
+export function getDB(): Promise<IDBPDatabase<CompanionDB>> {
+  if (!dbPromise) {
+    dbPromise = (async () => {
+      const db = await openDB<CompanionDB>(DB_NAME, DB_VERSION, {
+        upgrade(db, oldVersion, newVersion, tx) {
+          const target = newVersion ?? DB_VERSION
+          for (let v = oldVersion + 1; v <= target; v++) {
+            console.log(`[DB] Migrating schema to v${v}`)
+            MIGRATIONS[v]?.(db, tx)
+          }
+        },
+        blocking() {
+          // A newer version was opened elsewhere; let it upgrade
+          db.close()
+          dbPromise = null
+        },
+      })
+      await importLegacyStorage(db)
+      return db
+    })()
+    dbPromise.catch(() => { dbPromise = null })
+  }
+  return dbPromise
+}
+
+/**
+ * One-time import of data written by the chrome.storage.local layout
+ *
+ * The legacy data is read first (no awaiting non-IDB work inside a
+ * transaction), then written in a single transaction that re-checks the
+ * import flag, so concurrent contexts cannot import twice.
+ */
+async function importLegacyStorage(db: IDBPDatabase<CompanionDB>) {
+  if (await db.get('meta', LEGACY_IMPORTED_FLAG)) return
+
+  const legacy = await chrome.storage.local.get([
+    LEGACY_NOTES_KEY,
+    LEGACY_PAGE_SUMMARIES_KEY,
+    LEGACY_PAGE_CHAT_HISTORY_KEY,
+  ])
+  const notes = (legacy[LEGACY_NOTES_KEY] as Note[] | undefined) || []
+  const summaries = (legacy[LEGACY_PAGE_SUMMARIES_KEY] as Record<string, PageSummaryCache> | undefined) || {}
+  const chats = (legacy[LEGACY_PAGE_CHAT_HISTORY_KEY] as Record<string, PageChatHistory> | undefined) || {}
+
+  const tx = db.transaction(['meta', 'notes', 'pageSummaries', 'pageChatHistory'], 'readwrite')
+  if (await tx.objectStore('meta').get(LEGACY_IMPORTED_FLAG)) {
+    await tx.done
+    return
+  }
+
+  const writes: Promise<unknown>[] = []
+  for (const note of notes) {
+    writes.push(tx.objectStore('notes').put(note))
+  }
+  for (const [url, entry] of Object.entries(summaries)) {
+    writes.push(tx.objectStore('pageSummaries').put({ ...entry, url }))
+  }
+  for (const [url, entry] of Object.entries(chats)) {
+    writes.push(tx.objectStore('pageChatHistory').put({ ...entry, url }))
+  }
+  writes.push(tx.objectStore('meta').put(Date.now(), LEGACY_IMPORTED_FLAG))
+  await Promise.all([...writes, tx.done])
+
+  console.log(`[DB] Imported legacy storage: ${notes.length} notes, ${Object.keys(summaries).length} summaries, ${Object.keys(chats).length} chats`)
+  await chrome.storage.local.remove([LEGACY_NOTES_KEY, LEGACY_PAGE_SUMMARIES_KEY, LEGACY_PAGE_CHAT_HISTORY_KEY])
+}
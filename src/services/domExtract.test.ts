@@ -0,0 +1,191 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from 'vitest'
+import { extractDocument, type ContentBlock, type ExtractedDocument } from './domExtract'
+import docsPage from './__fixtures__/extract/docs.html?raw'
+import embedsPage from './__fixtures__/extract/embeds.html?raw'
+import forumPage from './__fixtures__/extract/forum.html?raw'
+import newsPage from './__fixtures__/extract/news.html?raw'
+import spaPage from './__fixtures__/extract/spa.html?raw'
+
+function parse(html: string): Document {
+  return new DOMParser().parseFromString(html, 'text/html')
+}
+
+function blocks(doc: ExtractedDocument): ContentBlock[] {
+  return doc.sections.flatMap(section => section.blocks)
+}
+
+function paragraphs(doc: ExtractedDocument): string[] {
+  return blocks(doc).flatMap(block => block.type === 'paragraph' ? [block.text] : [])
+}
+
+describe('news article', () => {
+  const result = extractDocument(parse(newsPage))
+
+  it('reads the title and byline', () => {
+    // The article's h1 wins over "Headline | Site"
+    expect(result.title).toBe('City Council Approves New Bike Lanes')
+    expect(result.byline).toBe('Dana Reyes')
+    expect(result.text.startsWith('# City Council Approves New Bike Lanes\nBy Dana Reyes\n\n')).toBe(true)
+  })
+
+  it('keeps the story and drops the page chrome', () => {
+    expect(paragraphs(result)).toContain('The city council voted 7-2 on Tuesday to build protected bike lanes on four downtown streets, ending a debate that lasted more than two years.')
+    for (const boilerplate of ['The Daily Ledger', 'Sports', 'cookies', 'Share on', 'Related', 'Parking rates', 'Most read', 'All rights reserved']) {
+      expect(result.text).not.toContain(boilerplate)
+    }
+  })
+
+  it('keeps the heading structure and lists', () => {
+    expect(result.sections.map(s => [s.heading, s.level])).toEqual([
+      [undefined, 0],
+      ['What changes', 2],
+      ['What comes next', 2],
+    ])
+    expect(result.sections[1].blocks[1]).toEqual({
+      type: 'list',
+      ordered: false,
+      items: [
+        'Main Street, from 1st to 9th Avenue',
+        'Harbor Road, between the ferry terminal and the market',
+        'Elm Street and Oak Street, as a connected loop',
+      ],
+    })
+  })
+})
+
+describe('documentation page', () => {
+  const result = extractDocument(parse(docsPage))
+
+  it('uses the page heading as the title and drops the navigation', () => {
+    expect(result.title).toBe('Configuration')
+    expect(result.text).not.toContain('Installation')
+    expect(result.text).not.toContain('Edit this page')
+  })
+
+  it('keeps tables, code and nested lists', () => {
+    expect(result.sections.map(s => [s.heading, s.level])).toEqual([
+      [undefined, 0],
+      ['Options', 2],
+      ['Example', 2],
+      ['Steps', 3],
+    ])
+    expect(result.sections[1].blocks).toEqual([{
+      type: 'table',
+      rows: [
+        ['Option', 'Default', 'Description'],
+        ['cacheDir', '.widgetry', 'Where built widgets are cached'],
+        ['parallel', 'true', 'Build widgets in parallel'],
+      ],
+    }])
+    expect(result.sections[2].blocks[1]).toEqual({ type: 'code', text: '{\n  "parallel": false\n}', lang: 'json' })
+    expect(result.sections[3].blocks).toEqual([{
+      type: 'list',
+      ordered: true,
+      items: ['Create the file in the project root.', 'Restart the dev server.', '  Changes are not picked up while it runs.'],
+    }])
+    expect(result.text).toContain('```json\n{\n  "parallel": false\n}\n```')
+    expect(result.text).toContain('1. Create the file in the project root.\n2. Restart the dev server.\n  - Changes are not picked up while it runs.')
+  })
+})
+
+describe('forum thread', () => {
+  const result = extractDocument(parse(forumPage))
+
+  it('keeps every post in order', () => {
+    const posts = paragraphs(result).filter(text => text.length > 25)
+    expect(posts).toHaveLength(3)
+    expect(posts[0]).toMatch(/^My loaves rise well overnight/)
+    expect(posts[1]).toMatch(/^That sounds like overproofing/)
+    expect(posts[2]).toMatch(/^Also check your starter/)
+  })
+
+  it('has no byline when several people wrote the page', () => {
+    expect(result.byline).toBeUndefined()
+  })
+
+  it('drops the menus', () => {
+    expect(result.text).not.toContain('Log in')
+    expect(result.text).not.toContain('Terms')
+  })
+})
+
+describe('single-page app', () => {
+  const result = extractDocument(parse(spaPage))
+
+  it('reads text held directly in divs', () => {
+    expect(paragraphs(result)).toEqual([
+      'Version 3.0',
+      'This release rewrites the rendering engine, which makes large documents open about twice as fast as before.',
+      'Plugins written for 2.x keep working, but the old theme format is no longer supported and must be converted.',
+      'See the migration guide for the conversion tool, and report any problems on the issue tracker.',
+    ])
+  })
+
+  it('drops app chrome and embedded state', () => {
+    expect(result.text).not.toContain('Releases')
+    expect(result.text).not.toContain('Upgrade to Pro')
+    expect(result.text).not.toContain('"props"')
+  })
+})
+
+describe('shadow roots', () => {
+  function withComponents(): Document {
+    const doc = parse(embedsPage)
+    doc.getElementById('open-host')!.attachShadow({ mode: 'open' }).innerHTML =
+      '<h2>Reading heights</h2><slot></slot><p>Negative heights mean the water falls below chart datum, exposing more of the shore.</p>'
+    doc.getElementById('closed-host')!.attachShadow({ mode: 'closed' }).innerHTML =
+      '<p>This text is inside a closed shadow root and cannot be read.</p>'
+    return doc
+  }
+
+  it('reads open shadow roots in place of the light DOM, with slotted content', () => {
+    const result = extractDocument(withComponents())
+    const section = result.sections.find(s => s.heading === 'Reading heights')
+    expect(section?.blocks).toEqual([
+      { type: 'paragraph', text: 'Heights are given above chart datum, the lowest level the tide normally reaches.' },
+      { type: 'paragraph', text: 'Negative heights mean the water falls below chart datum, exposing more of the shore.' },
+      { type: 'paragraph', text: 'Closed components are read from their light DOM, like any other element.' },
+      { type: 'paragraph', text: 'Always check the table for the nearest port, since times can differ by an hour along one coast.' },
+    ])
+  })
+
+  it('reads the light DOM of closed shadow roots', () => {
+    const result = extractDocument(withComponents())
+    expect(result.text).toContain('Closed components are read from their light DOM')
+    expect(result.text).not.toContain('closed shadow root')
+  })
+})
+
+describe('frames', () => {
+  const chart: ExtractedDocument = {
+    title: 'Tide chart',
+    sections: [
+      { level: 0, blocks: [{ type: 'paragraph', text: 'High water at 06:12 (4.1 m) and 18:40 (3.9 m), low water at 12:25 (0.8 m).' }] },
+      { heading: 'Spring tides', level: 2, blocks: [{ type: 'paragraph', text: 'Spring tides follow the new and full moon by a day or two.' }] },
+    ],
+    text: '',
+  }
+
+  it('merges frame content at the frame position', () => {
+    const doc = parse(embedsPage)
+    const frames = new Map<Element, ExtractedDocument>([[doc.getElementById('same-origin')!, chart]])
+    const text = extractDocument(doc, { frames }).text
+    const order = [
+      'A tide table lists',
+      'Heights are given above chart datum',
+      'High water at 06:12',
+      '## Spring tides',
+      'Spring tides follow the new and full moon',
+      'Always check the table',
+    ].map(snippet => text.indexOf(snippet))
+    expect(order.every(i => i >= 0)).toBe(true)
+    expect(order).toEqual([...order].sort((a, b) => a - b))
+  })
+
+  it('skips frames without collected content', () => {
+    const result = extractDocument(parse(embedsPage))
+    expect(result.text).not.toContain('High water')
+    expect(result.text).toContain('Always check the table')
+  })
+})
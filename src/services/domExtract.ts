@@ -1,10 +1,74 @@
 /**
  * DOM Extraction Utilities
- * 
+ *
  * Provides utilities for extracting text content from web pages
  * and user selections for AI processing.
+ *
+ * Page content is extracted Readability-style: paragraph-like elements score
+ * their ancestors, the best-scoring container (plus related siblings) is the
+ * article, and boilerplate inside it (navigation, share bars, comments, ads)
+ * is dropped. The result keeps the document structure (title, byline,
+ * sections with heading levels, paragraphs, lists, code and tables) and a
+ * plain-text rendering of it, which is what the AI features read.
+ *
+ * Only the DOM API is used (no layout), so extraction also runs on detached
+ * documents such as DOMParser or jsdom output.
+ *
+ * Plain-text and Markdown files that Chrome displays are read as text
+ * (extractTextDocument); PDFs are parsed separately (see pdfExtract.ts).
  */
 
+// ============================================================================
+// Types
+// ============================================================================
+
+export type ContentBlock =
+  | { type: 'paragraph'; text: string }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  | { type: 'code'; text: string; lang?: string }
+  | { type: 'table'; rows: string[][] }    // First row is the header row when the table has one
+  | { type: 'quote'; text: string }
+
+/**
+ * Content under one heading
+ * `level` is the heading level (1-6), or 0 for content before the first heading.
+ */
+export type ContentSection = {
+  heading?: string
+  level: number
+  blocks: ContentBlock[]
+}
+
+export type ExtractedDocument = {
+  title: string
+  byline?: string
+  sections: ContentSection[]
+  text: string                             // Plain-text rendering (see renderPlainText)
+  pages?: string[]                         // Text of each page (PDFs only; page N is pages[N - 1])
+}
+
+/**
+ * What the browser is showing
+ * - html: a web page
+ * - pdf: Chrome's PDF viewer (the page only holds an <embed>)
+ * - text: a plain-text or Markdown file (the page only holds a <pre>)
+ */
+export type DocumentKind = 'html' | 'pdf' | 'text'
+
+export type ExtractOptions = {
+  /**
+   * Content of child frames, by <iframe>/<frame> element
+   * Frames are not readable from the DOM when cross-origin, so the caller
+   * collects them (see content/frameExtract.ts); they are merged in at the
+   * frame's position. Frames without an entry are skipped.
+   */
+  frames?: Map<Element, ExtractedDocument>
+}
+
+// ============================================================================
+// Selection
+// ============================================================================
+
 /**
  * Get the currently selected text
  * @returns The trimmed selected text, or empty string if nothing is selected
@@ -14,69 +78,948 @@ export function getSelectionText(): string {
   return sel ? sel.toString().trim() : ''
 }
 
+/**
+ * Get the current selection with its structure (paragraphs, lists, code,
+ * tables) kept, rendered like extractReadableText()
+ * Falls back to the flat selection text for inline selections.
+ */
+export function getSelectionContent(): string {
+  const sel = window.getSelection()
+  if (!sel || sel.rangeCount === 0 || sel.isCollapsed) return ''
+
+  const container = document.createElement('div')
+  for (let i = 0; i < sel.rangeCount; i++) {
+    container.appendChild(sel.getRangeAt(i).cloneContents())
+  }
+
+  const text = renderPlainText(collectSections(container, new Map()))
+  return text || getSelectionText()
+}
+
+// ============================================================================
+// Document Type Detection
+// ============================================================================
+
+const TEXT_CONTENT_TYPES = ['text/plain', 'text/markdown', 'text/x-markdown']
+const TEXT_FILE_EXTENSION = /\.(txt|text|md|markdown|log)$/i
+const MARKDOWN_FILE_EXTENSION = /\.(md|markdown)$/i
+
+/**
+ * Detect whether a document is a web page, a PDF or a text file
+ */
+export function detectDocumentKind(doc: Document = document): DocumentKind {
+  const body = doc.body
+  if (doc.contentType === 'application/pdf') return 'pdf'
+  if (body?.children.length === 1 && body.querySelector(':scope > embed[type="application/pdf"]')) return 'pdf'
+
+  if (TEXT_CONTENT_TYPES.includes(doc.contentType)) return 'text'
+  const onlyPre = body?.children.length === 1 && body.children[0].tagName === 'PRE'
+  if (onlyPre && TEXT_FILE_EXTENSION.test(new URL(doc.URL).pathname)) return 'text'
+
+  return 'html'
+}
+
+/**
+ * File name of a document's URL, used as the title of files without one
+ */
+export function documentFileName(doc: Document = document): string {
+  try {
+    const path = new URL(doc.URL).pathname
+    return decodeURIComponent(path.slice(path.lastIndexOf('/') + 1)) || doc.URL
+  } catch {
+    return doc.URL
+  }
+}
+
+/**
+ * Extract a plain-text or Markdown file shown by the browser
+ *
+ * Markdown headings start sections and fenced code becomes code blocks;
+ * other text is split into paragraphs at blank lines. The plain-text
+ * rendering is the file itself, with line breaks kept.
+ */
+export function extractTextDocument(doc: Document = document): ExtractedDocument {
+  const raw = (doc.body?.querySelector('pre')?.textContent ?? doc.body?.textContent ?? '')
+    .replace(/\r\n?/g, '\n')
+  const markdown = doc.contentType.includes('markdown') || MARKDOWN_FILE_EXTENSION.test(new URL(doc.URL).pathname)
+
+  const sections: ContentSection[] = [{ level: 0, blocks: [] }]
+  const current = () => sections[sections.length - 1]
+  let paragraph: string[] = []
+  let code: { lang?: string; lines: string[] } | null = null
+
+  const flush = () => {
+    const text = paragraph.join('\n').trim()
+    if (text) current().blocks.push({ type: 'paragraph', text })
+    paragraph = []
+  }
+
+  for (const line of raw.split('\n')) {
+    if (markdown && /^(```|~~~)/.test(line)) {
+      if (code) {
+        current().blocks.push({ type: 'code', text: code.lines.join('\n'), lang: code.lang })
+        code = null
+      } else {
+        flush()
+        code = { lang: line.slice(3).trim() || undefined, lines: [] }
+      }
+      continue
+    }
+    if (code) {
+      code.lines.push(line)
+      continue
+    }
+
+    const heading = markdown ? line.match(/^(#{1,6})\s+(.+?)\s*#*$/) : null
+    if (heading) {
+      flush()
+      sections.push({ heading: heading[2], level: heading[1].length, blocks: [] })
+    } else if (!line.trim()) {
+      flush()
+    } else {
+      paragraph.push(line.trimEnd())
+    }
+  }
+  if (code) current().blocks.push({ type: 'code', text: code.lines.join('\n'), lang: code.lang })
+  flush()
+
+  return {
+    title: sections.find(s => s.heading)?.heading || documentFileName(doc),
+    sections: sections.filter(s => s.heading || s.blocks.length > 0),
+    text: raw.replace(/[ \t]+$/gm, '').replace(/\n{3,}/g, '\n\n').trim(),
+  }
+}
+
+// ============================================================================
+// Document Extraction
+// ============================================================================
+
 /**
  * Extract readable text content from a document
- * 
- * This function attempts to extract only the main content of a page,
- * filtering out navigation, ads, scripts, and other noise. It uses:
- * 1. Common semantic selectors (main, article, etc.)
- * 2. Fallback to full body with cleanup
- * 3. JSON detection to avoid processing data dumps
- * 
+ *
+ * Plain-text rendering of extractDocument(): title, byline and the article's
+ * sections, with paragraphs separated by blank lines.
+ *
  * @param doc - The document to extract from (defaults to current document)
- * @returns Cleaned, readable text content
- */
-export function extractReadableText(doc: Document = document): string {
-  // Try to find main content area using common selectors
-  const mainContentSelectors = [
-    'main',
-    '[role="main"]',
-    'article',
-    '.content',
-    '#content',
-    '.main-content',
-    '#main-content',
-    '[class*="post-content"]',
-    '[class*="article-content"]'
-  ]
-  
-  // Try each selector until we find substantial non-JSON content
-  for (const sel of mainContentSelectors) {
-    const mainEl = doc.querySelector(sel) as HTMLElement
-    if (mainEl && mainEl.innerText) {
-      const text = mainEl.innerText.trim()
-      if (text.length > 200 && !looksLikeJSON(text)) {
-        return cleanText(text)
+ * @returns Readable text content
+ */
+export function extractReadableText(doc: Document = document, opts: ExtractOptions = {}): string {
+  return extractDocument(doc, opts).text
+}
+
+/**
+ * Extract the main article of a document as structured content
+ *
+ * Open shadow roots are read in place of their host's light DOM (slotted
+ * content included), and frames listed in `opts.frames` are merged in.
+ *
+ * @param doc - The document to extract from (defaults to current document)
+ */
+export function extractDocument(doc: Document = document, opts: ExtractOptions = {}): ExtractedDocument {
+  const frames = opts.frames ?? new Map()
+  const roots = findContentRoots(doc, frames)
+  const sections = roots.flatMap(root => collectSections(root, frames))
+  const title = findTitle(doc, sections)
+  const byline = findByline(doc)
+
+  // The first heading usually repeats the title
+  if (sections[0]?.heading && sections[0].heading === title) {
+    sections[0] = { ...sections[0], heading: undefined, level: 0 }
+  }
+
+  const header = [title ? `# ${title}` : '', byline ? `By ${byline}` : ''].filter(Boolean).join('\n')
+  const body = renderPlainText(sections)
+  return {
+    title,
+    byline,
+    sections,
+    text: [header, body].filter(Boolean).join('\n\n'),
+  }
+}
+
+/**
+ * Render sections as plain text
+ * Headings become `#` lines, list items `-` or `1.` lines, code is fenced and
+ * table cells are separated by ` | `; blocks are separated by blank lines.
+ */
+export function renderPlainText(sections: ContentSection[]): string {
+  const parts: string[] = []
+
+  for (const section of sections) {
+    if (section.heading) parts.push(`${'#'.repeat(Math.max(1, section.level))} ${section.heading}`)
+
+    for (const block of section.blocks) {
+      switch (block.type) {
+        case 'paragraph':
+          parts.push(block.text)
+          break
+        case 'list':
+          parts.push(renderList(block.items, block.ordered))
+          break
+        case 'code':
+          parts.push('```' + (block.lang || '') + '\n' + block.text + '\n```')
+          break
+        case 'table':
+          parts.push(block.rows.map(row => row.join(' | ')).join('\n'))
+          break
+        case 'quote':
+          parts.push(block.text.split('\n').map(line => `> ${line}`).join('\n'))
+          break
       }
     }
   }
-  
-  // Fallback: clone body and remove unwanted elements
-  const cloned = doc.body.cloneNode(true) as HTMLElement
-  
-  // Remove navigation, ads, scripts, and other non-content elements
-  const selectorsToRemove = [
-    'nav', 'header', 'footer', 'aside',
-    'script', 'style', 'noscript',
-    '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]',
-    '[aria-hidden="true"]',
-    'iframe', 'video', 'audio',
-    '.ad', '.ads', '[class*="advertisement"]',
-    '[data-nosnippet]',
-    'button', 'svg', 'form'
-  ]
-  
-  for (const sel of selectorsToRemove) {
-    cloned.querySelectorAll(sel).forEach(e => e.remove())
+
+  return parts.join('\n\n').trim()
+}
+
+/**
+ * Render list items; nested items (indented by listItems()) keep their
+ * indentation and are bulleted
+ */
+function renderList(items: string[], ordered: boolean): string {
+  let n = 0
+  return items.map((item) => {
+    const indent = item.match(/^ */)![0]
+    const marker = ordered && !indent ? `${++n}.` : '-'
+    return `${indent}${marker} ${item.trimStart()}`
+  }).join('\n')
+}
+
+// Passage sizes for chat grounding (see splitPassages)
+const MIN_PASSAGE_WORDS = 25
+const MAX_PASSAGE_WORDS = 150
+
+/**
+ * Split a plain-text rendering (see renderPlainText) into passages that a
+ * chat answer can cite
+ * Passages follow block boundaries: heading lines are left out, runs of short
+ * blocks are merged (up to MAX_PASSAGE_WORDS) and no block is cut. The same text always gives the same passages.
+ */
+export function splitPassages(text: string): string[] {
+  const passages: string[] = []
+  let current: string[] = []
+  let words = 0
+  const flush = () => {
+    if (current.length) passages.push(current.join('\n'))
+    current = []
+    words = 0
+  }
+
+  for (const block of text.split(/\n\s*\n/)) {
+    const trimmed = block.trim()
+    if (!trimmed) continue
+    if (/^#{1,6} [^\n]*$/.test(trimmed)) {
+      flush()
+      continue
+    }
+    const count = trimmed.split(/\s+/).length
+    // A block long enough to stand alone is not merged into a run of short ones
+    if (words && (count >= MIN_PASSAGE_WORDS || words + count > MAX_PASSAGE_WORDS)) flush()
+    current.push(trimmed)
+    words += count
+    if (words >= MIN_PASSAGE_WORDS) flush()
+  }
+  flush()
+  return passages
+}
+
+// ============================================================================
+// Content Scoring
+// ============================================================================
+
+// Navigation, scripts, forms and other elements that are never content
+const NOISE_SELECTORS = [
+  'nav', 'header', 'footer', 'aside',
+  'script', 'style', 'noscript', 'template',
+  '[role="navigation"]', '[role="banner"]', '[role="contentinfo"]', '[role="complementary"]',
+  '[aria-hidden="true"]', '[hidden]',
+  'iframe', 'frame', 'video', 'audio', 'canvas',
+  '.ad', '.ads', '[class*="advertisement"]',
+  '[data-nosnippet]',
+  'button', 'svg', 'select', 'input', 'textarea',
+]
+const NOISE_SELECTOR = NOISE_SELECTORS.join(', ')
+
+// The extension's own UI
+const OWN_UI_SELECTOR = '[id^="__ai_"], [class^="ai-"]'
+
+// class/id hints (from Mozilla Readability)
+const POSITIVE_HINT = /article|body|content|entry|hentry|h-entry|main|page|post|text|blog|story|prose|markdown/i
+const NEGATIVE_HINT = /comment|combx|disqus|foot|masthead|media|meta|outbrain|promo|related|scroll|share|shoutbox|sidebar|skyscraper|sponsor|shopping|social|tags|tool|widget|banner|breadcrumb|cookie|newsletter|popup|modal|menu|subscribe/i
+
+// Elements whose own text is read as one paragraph-like unit when scoring
+const SCORED_SELECTOR = 'p, pre, td, blockquote, li, div, section'
+
+const BLOCK_TAGS = new Set([
+  'ADDRESS', 'ARTICLE', 'ASIDE', 'BLOCKQUOTE', 'DD', 'DETAILS', 'DIV', 'DL', 'DT', 'FIGCAPTION', 'FIGURE',
+  'FOOTER', 'FORM', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'HEADER', 'HR', 'LI', 'MAIN', 'NAV', 'OL', 'P',
+  'PRE', 'SECTION', 'SUMMARY', 'TABLE', 'TBODY', 'THEAD', 'TFOOT', 'TR', 'TD', 'TH', 'UL',
+])
+
+/**
+ * Weight of an element from its class and id (±25)
+ */
+function classWeight(el: Element): number {
+  const hints = `${el.className && typeof el.className === 'string' ? el.className : ''} ${el.id}`
+  let weight = 0
+  if (NEGATIVE_HINT.test(hints)) weight -= 25
+  if (POSITIVE_HINT.test(hints)) weight += 25
+  return weight
+}
+
+/**
+ * Starting score of a candidate container from its tag
+ */
+function tagWeight(el: Element): number {
+  switch (el.tagName) {
+    case 'ARTICLE':
+    case 'MAIN':
+      return 15
+    case 'DIV':
+    case 'SECTION':
+      return 5
+    case 'PRE':
+    case 'TD':
+    case 'BLOCKQUOTE':
+      return 3
+    case 'OL':
+    case 'UL':
+    case 'DL':
+    case 'FORM':
+      return -3
+    case 'TH':
+      return -5
+    default:
+      return el.getAttribute('role') === 'main' ? 15 : 0
+  }
+}
+
+/**
+ * Share of an element's text that is link text (0-1)
+ */
+function linkDensity(el: Element): number {
+  const total = collapseWhitespace(el.textContent || '').length
+  if (!total) return 0
+  let links = 0
+  el.querySelectorAll('a').forEach((a) => { links += collapseWhitespace(a.textContent || '').length })
+  return links / total
+}
+
+function isSkipped(el: Element): boolean {
+  return el.matches(NOISE_SELECTOR) || el.matches(OWN_UI_SELECTOR) || (el as HTMLElement).style?.display === 'none'
+}
+
+function hasBlockChild(el: Element): boolean {
+  return Array.from(el.children).some(child => BLOCK_TAGS.has(child.tagName))
+}
+
+/**
+ * Parent element, crossing from a shadow root to its host
+ */
+function composedParent(el: Element): Element | null {
+  if (el.parentElement) return el.parentElement
+  const parent = el.parentNode
+  return parent && parent.nodeType === Node.DOCUMENT_FRAGMENT_NODE ? (parent as ShadowRoot).host ?? null : null
+}
+
+/**
+ * querySelectorAll that also searches open shadow roots, in document order
+ */
+function deepQueryAll<E extends Element = Element>(root: ParentNode, selector: string): E[] {
+  const found: E[] = []
+  const visit = (node: ParentNode) => {
+    for (const el of Array.from(node.querySelectorAll('*'))) {
+      if (el.matches(selector)) found.push(el as E)
+      if (el.shadowRoot) visit(el.shadowRoot)
+    }
+  }
+  visit(root)
+  return found
+}
+
+/**
+ * Frames of a document (including frames inside open shadow roots), without
+ * hidden frames and the extension's own UI
+ */
+export function findFrames(doc: Document = document): HTMLIFrameElement[] {
+  return deepQueryAll<HTMLIFrameElement>(doc, 'iframe, frame').filter(frame =>
+    !frame.closest('[aria-hidden="true"], [hidden]') && !frame.closest(OWN_UI_SELECTOR) && frame.style.display !== 'none'
+  )
+}
+
+/**
+ * Readability score of a paragraph-like run of text
+ */
+function paragraphScore(text: string): number {
+  return 1 + (text.match(/[,、，]/g)?.length ?? 0) + Math.min(Math.floor(text.length / 100), 3)
+}
+
+/**
+ * Find the containers holding the main article, in document order
+ *
+ * Each paragraph-like element with enough text adds a score to its parent and
+ * (half) to its grandparent; scores are then reduced by link density. The
+ * top-scoring container is the article, joined by siblings that score close
+ * to it or read like prose. Falls back to the body for pages with no
+ * paragraph-like content (e.g. very short pages).
+ */
+function findContentRoots(doc: Document, frames: Map<Element, ExtractedDocument>): HTMLElement[] {
+  const body = doc.body
+  if (!body) return []
+
+  const scores = new Map<Element, number>()
+  const addScore = (el: Element, score: number) => {
+    const parent = composedParent(el)
+    const grandparent = parent && composedParent(parent)
+    for (const [ancestor, share] of [[parent, score], [grandparent, score / 2]] as const) {
+      if (!ancestor) continue
+      if (!scores.has(ancestor)) scores.set(ancestor, tagWeight(ancestor) + classWeight(ancestor))
+      scores.set(ancestor, scores.get(ancestor)! + share)
+    }
   }
-  
-  return cleanText(cloned.textContent || '')
+
+  deepQueryAll(body, SCORED_SELECTOR).forEach((el) => {
+    // div/section only count when they directly hold text (SPA markup often has no <p>)
+    if ((el.tagName === 'DIV' || el.tagName === 'SECTION') && hasBlockChild(el)) return
+    if (el.closest(NOISE_SELECTOR) || el.closest(OWN_UI_SELECTOR)) return
+
+    const text = collapseWhitespace(el.textContent || '')
+    if (text.length < 25 || looksLikeJSON(text)) return
+    addScore(el, paragraphScore(text))
+  })
+
+  // A frame scores like the paragraphs it holds
+  for (const [frame, content] of frames) {
+    const score = content.sections
+      .flatMap(section => section.blocks)
+      .reduce((sum, block) => sum + (block.type === 'paragraph' && block.text.length >= 25 ? paragraphScore(block.text) : 0), 0)
+    if (score > 0) addScore(frame, score)
+  }
+
+  let top: Element | null = null
+  let topScore = 0
+  for (const [el, score] of scores) {
+    const adjusted = score * (1 - linkDensity(el))
+    scores.set(el, adjusted)
+    if (adjusted > topScore) {
+      top = el
+      topScore = adjusted
+    }
+  }
+
+  if (!top || top === body || top === doc.documentElement) return [body]
+
+  // Siblings that belong to the same article (e.g. a lead paragraph outside the body div)
+  const parent = top.parentNode as ParentNode | null
+  if (!parent) return [top as HTMLElement]
+  const threshold = Math.max(10, topScore * 0.2)
+  const topHint = `${top.className}`
+
+  return Array.from(parent.children).filter((sibling): sibling is HTMLElement => {
+    if (sibling === top) return true
+    if (isSkipped(sibling)) return false
+    let bonus = 0
+    if (topHint && sibling.className === topHint) bonus += topScore * 0.2
+    if ((scores.get(sibling) ?? 0) + bonus >= threshold) return true
+    if (sibling.tagName === 'P') {
+      const text = collapseWhitespace(sibling.textContent || '')
+      const density = linkDensity(sibling)
+      return (text.length > 80 && density < 0.25) || (text.length > 0 && density === 0 && /\.( |$)/.test(text))
+    }
+    return false
+  })
 }
 
+/**
+ * Page title: og:title, then the document title, then the first heading
+ */
+function findTitle(doc: Document, sections: ContentSection[]): string {
+  const og = doc.querySelector('meta[property="og:title"]')?.getAttribute('content')
+  const title = collapseWhitespace(og || doc.title || '')
+  const firstHeading = sections.find(s => s.heading)?.heading
+  if (!title) return firstHeading || ''
+
+  // Prefer the article's own h1 when the document title is "Article | Site"
+  if (firstHeading && title.includes(firstHeading) && title !== firstHeading) return firstHeading
+  return title
+}
+
+function findByline(doc: Document): string | undefined {
+  const meta = doc.querySelector('meta[name="author"], meta[property="article:author"]')?.getAttribute('content')
+  // Several author elements means a thread or a listing, not one article's byline
+  const authors = doc.querySelectorAll('[rel="author"], [itemprop="author"], .byline, .author, [class*="byline"]')
+  const candidates = [meta, authors.length === 1 ? authors[0].textContent : null]
+  for (const candidate of candidates) {
+    const text = collapseWhitespace(candidate || '').replace(/^by\s+/i, '')
+    if (text && text.length < 100 && !/^https?:/.test(text)) return text
+  }
+  return undefined
+}
+
+// ============================================================================
+// Structure Collection
+// ============================================================================
+
+/**
+ * Walk a container and collect its content into sections
+ * Inline content between blocks becomes paragraphs; noise and boilerplate
+ * (high link density with a negative class hint) are skipped. Frames with
+ * collected content are merged in where they appear.
+ */
+function collectSections(root: Element, frames: Map<Element, ExtractedDocument>): ContentSection[] {
+  const sections: ContentSection[] = [{ level: 0, blocks: [] }]
+  const current = () => sections[sections.length - 1]
+  const push = (block: ContentBlock) => current().blocks.push(block)
+
+  let inline = ''
+  const flush = () => {
+    const text = normalizeInline(inline)
+    if (text) push({ type: 'paragraph', text })
+    inline = ''
+  }
+
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      inline += (node.textContent || '').replace(/\s+/g, ' ')
+      return
+    }
+    if (node.nodeType !== Node.ELEMENT_NODE) return
+
+    const el = node as Element
+    const framed = frames.get(el)
+    if (framed) {
+      flush()
+      for (const section of framed.sections) {
+        if (section.heading) sections.push({ ...section, blocks: [...section.blocks] })
+        else current().blocks.push(...section.blocks)
+      }
+      return
+    }
+    if (isSkipped(el)) return
+
+    if (!BLOCK_TAGS.has(el.tagName)) {
+      if (el.tagName === 'BR') inline += '\n'
+      else if (el.tagName !== 'IMG') renderedChildren(el).forEach(walk)
+      return
+    }
+
+    flush()
+
+    // Boilerplate blocks: link lists with a negative hint (related, share, comments)
+    if (NEGATIVE_HINT.test(`${typeof el.className === 'string' ? el.className : ''} ${el.id}`) && linkDensity(el) > 0.3) return
+
+    const tag = el.tagName
+    if (/^H[1-6]$/.test(tag)) {
+      const heading = collapseWhitespace(el.textContent || '')
+      if (heading) sections.push({ heading, level: Number(tag[1]), blocks: [] })
+    } else if (tag === 'P' || tag === 'DT' || tag === 'DD' || tag === 'FIGCAPTION' || tag === 'SUMMARY' || tag === 'ADDRESS') {
+      const text = inlineText(el)
+      if (text) push({ type: 'paragraph', text })
+    } else if (tag === 'UL' || tag === 'OL') {
+      const items = listItems(el)
+      if (items.length) push({ type: 'list', ordered: tag === 'OL', items })
+    } else if (tag === 'PRE') {
+      const text = (el.textContent || '').replace(/\s+$/, '')
+      const lang = (el.querySelector('code')?.className || el.className).match(/(?:language|lang)-([\w+#-]+)/)?.[1]
+      if (text.trim()) push({ type: 'code', text, lang })
+    } else if (tag === 'BLOCKQUOTE') {
+      const text = renderPlainText(collectSections(el, frames))
+      if (text) push({ type: 'quote', text })
+    } else if (tag === 'TABLE') {
+      if (isLayoutTable(el)) {
+        renderedChildren(el).forEach(walk)
+      } else {
+        const rows = tableRows(el)
+        if (rows.length) push({ type: 'table', rows })
+      }
+    } else if (tag !== 'HR') {
+      renderedChildren(el).forEach(walk)
+    }
+
+    flush()
+  }
+
+  renderedChildren(root).forEach(walk)
+  flush()
+
+  return sections.filter(s => s.heading || s.blocks.length > 0)
+}
+
+/**
+ * Child nodes as rendered: an open shadow root replaces its host's light DOM,
+ * and a <slot> renders the nodes assigned to it (or its fallback content)
+ */
+function renderedChildren(el: Element): Node[] {
+  if (el.shadowRoot) return Array.from(el.shadowRoot.childNodes)
+  if (el.tagName === 'SLOT') {
+    const assigned = (el as HTMLSlotElement).assignedNodes({ flatten: true })
+    if (assigned.length) return assigned
+  }
+  return Array.from(el.childNodes)
+}
+
+/**
+ * Items of a list; nested lists are flattened with indentation
+ */
+function listItems(list: Element, depth = 0): string[] {
+  const items: string[] = []
+  for (const li of Array.from(list.children)) {
+    if (li.tagName !== 'LI' || isSkipped(li)) continue
+
+    const clone = li.cloneNode(true) as Element
+    clone.querySelectorAll('ul, ol').forEach(n => n.remove())
+    const text = inlineText(clone)
+    if (text) items.push(`${'  '.repeat(depth)}${text}`)
+
+    li.querySelectorAll(':scope > ul, :scope > ol').forEach((nested) => {
+      items.push(...listItems(nested, depth + 1))
+    })
+  }
+  return items
+}
+
+/**
+ * Tables used for page layout rather than data: nested tables, or a single column
+ */
+function isLayoutTable(table: Element): boolean {
+  if (table.getAttribute('role') === 'presentation') return true
+  if (table.querySelector('table')) return true
+  const firstRow = table.querySelector('tr')
+  return !firstRow || firstRow.querySelectorAll('td, th').length < 2
+}
+
+function tableRows(table: Element): string[][] {
+  return Array.from(table.querySelectorAll('tr'))
+    .map(tr => Array.from(tr.querySelectorAll('th, td')).map(cell => collapseWhitespace(cell.textContent || '')))
+    .filter(row => row.some(Boolean))
+}
+
+/**
+ * Text of an inline run, keeping <br> line breaks
+ */
+function inlineText(el: Element): string {
+  let text = ''
+  const walk = (node: Node) => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += (node.textContent || '').replace(/\s+/g, ' ')
+    } else if (node.nodeType === Node.ELEMENT_NODE) {
+      const child = node as Element
+      if (isSkipped(child)) return
+      if (child.tagName === 'BR') text += '\n'
+      else renderedChildren(child).forEach(walk)
+    }
+  }
+  renderedChildren(el).forEach(walk)
+  return normalizeInline(text)
+}
+
+// ============================================================================
+// Readable Blocks (page translation)
+// ============================================================================
+
+// Elements whose text is read as one unit
+const BLOCK_SELECTOR = 'p, h1, h2, h3, h4, h5, h6, li, blockquote, figcaption, dt, dd, td, th'
+
+/**
+ * Find the readable text blocks (paragraphs, headings, list items, ...) of a
+ * document, in document order
+ *
+ * Blocks come from the article found by extractDocument()'s scoring,
+ * including blocks inside open shadow roots. Only the
+ * innermost block is returned when blocks nest (e.g. a <p> inside an <li>),
+ * blocks without letters are skipped, and the extension's own UI (`.ai-*`,
+ * `#__ai_*`) is ignored.
+ *
+ * @param doc - The document to read (defaults to current document)
+ * @returns Visible block elements
+ */
+export function findReadableBlocks(doc: Document = document): HTMLElement[] {
+  return findContentRoots(doc, new Map()).flatMap(root =>
+    deepQueryAll<HTMLElement>(root, BLOCK_SELECTOR).filter((el) => {
+      const noise = el.closest(NOISE_SELECTOR)
+      if (noise && root.contains(noise)) return false
+      if (el.closest(OWN_UI_SELECTOR)) return false
+      if (el.querySelector(BLOCK_SELECTOR)) return false
+      if (!/\p{L}/u.test(el.innerText || '')) return false
+      return el.getClientRects().length > 0
+    })
+  )
+}
+
+// ============================================================================
+// Selection Context (explain)
+// ============================================================================
+
+export type SelectionContext = {
+  text: string                             // The selection with the sentences around it
+  heading?: string                         // Nearest heading above the selection
+  pageTitle: string
+}
+
+export type SelectionContextOptions = {
+  sentences?: number                       // Whole sentences to add on each side (default 2)
+  lang?: string                            // Sentence rules; defaults to the page's lang attribute
+}
+
+// Text read on each side of a selection before sentence splitting
+const MAX_CONTEXT_CHARS = 1200
+
+const HEADING_SELECTOR = 'h1, h2, h3, h4, h5, h6, [role="heading"]'
+
+// Text nodes that are never page text
+const NON_TEXT_SELECTOR = `script, style, noscript, template, textarea, ${OWN_UI_SELECTOR}`
+
+/**
+ * Get the context of the current selection (see getRangeContext)
+ * @returns The context, or null when nothing is selected
+ */
+export function getSelectionContext(opts: SelectionContextOptions = {}): SelectionContext | null {
+  const sel = window.getSelection()
+  if (!sel || sel.rangeCount === 0 || sel.isCollapsed) return null
+  return getRangeContext(sel.getRangeAt(0), opts)
+}
+
+/**
+ * Get the sentences around a range, the nearest heading above it and the
+ * page title
+ *
+ * Text is read from the text nodes on either side of the range's exact
+ * boundaries, so repeated terms and selections spanning elements resolve to
+ * the right place. Reading stops at headings, and sentences are split with
+ * Intl.Segmenter, which knows the sentence rules of every language.
+ *
+ * @param range - The selected range
+ * @param opts - Sentences per side and language
+ */
+export function getRangeContext(range: Range, opts: SelectionContextOptions = {}): SelectionContext {
+  const doc = range.startContainer.ownerDocument ?? document
+  const count = opts.sentences ?? 2
+
+  const before = readText(range.startContainer, range.startOffset, true)
+  const selected = collapseWhitespace(range.toString())
+  const after = readText(range.endContainer, range.endOffset, false)
+
+  // Segment everything at once; the selection's first and last sentences are
+  // those overlapping its boundaries
+  const full = before + selected + after
+  const start = before.length
+  const end = start + selected.length
+  const segments = Array.from(sentenceSegmenter(opts.lang ?? rangeLang(range)).segment(full))
+  const first = Math.max(0, segments.findIndex(s => s.index + s.segment.length > start))
+  let last = segments.findIndex(s => s.index + s.segment.length >= end)
+  if (last === -1) last = segments.length - 1
+
+  const from = segments[Math.max(0, first - count)]?.index ?? start
+  const toSegment = segments[Math.min(segments.length - 1, last + count)]
+  const to = toSegment ? toSegment.index + toSegment.segment.length : end
+
+  return {
+    text: normalizeInline(full.slice(Math.min(from, start), Math.max(to, end))),
+    heading: findHeadingBefore(range.startContainer),
+    pageTitle: collapseWhitespace(doc.title || ''),
+  }
+}
+
+/**
+ * Read up to MAX_CONTEXT_CHARS of text before (backward) or after a boundary
+ * point, stopping at headings
+ * Text of different blocks is joined with a newline.
+ */
+function readText(container: Node, offset: number, backward: boolean): string {
+  const doc = container.ownerDocument ?? document
+  const isText = (node: Node) => node.nodeType === Node.TEXT_NODE && !node.parentElement?.closest(NON_TEXT_SELECTOR)
+  const walker = doc.createTreeWalker(doc.documentElement, NodeFilter.SHOW_TEXT, {
+    acceptNode: node => isText(node) ? NodeFilter.FILTER_ACCEPT : NodeFilter.FILTER_SKIP,
+  })
+  const step = () => backward ? walker.previousNode() : walker.nextNode()
+
+  // The first text node past the boundary, and its part past the boundary
+  let node: Node | null
+  let text = ''
+  if (container.nodeType === Node.TEXT_NODE) {
+    const data = container.textContent || ''
+    text = backward ? data.slice(0, offset) : data.slice(offset)
+    walker.currentNode = container
+    node = step()
+  } else {
+    // The child on the boundary's side, or the container itself at its start/end
+    const child = backward ? container.childNodes[offset - 1] : container.childNodes[offset]
+    let edge: Node = child ?? container
+    // Backward from a child, or forward past the end of the container, starts at the subtree's last node
+    if (backward === Boolean(child)) {
+      while (edge.lastChild) edge = edge.lastChild
+    }
+    walker.currentNode = edge
+    node = child && isText(edge) ? edge : step()
+  }
+
+  const parts = [text.replace(/\s+/g, ' ')]
+  let length = text.length
+  let block = blockAncestor(container)
+  while (node && length < MAX_CONTEXT_CHARS) {
+    if (node.parentElement?.closest(HEADING_SELECTOR)) break
+    const nodeBlock = blockAncestor(node)
+    if (nodeBlock !== block) {
+      parts.push('\n')
+      block = nodeBlock
+    }
+    const data = (node.textContent || '').replace(/\s+/g, ' ')
+    parts.push(data)
+    length += data.length
+    node = step()
+  }
+
+  const joined = (backward ? parts.reverse() : parts).join('')
+  return backward ? joined.slice(-MAX_CONTEXT_CHARS) : joined.slice(0, MAX_CONTEXT_CHARS)
+}
+
+function blockAncestor(node: Node): Element | null {
+  let el = node.nodeType === Node.ELEMENT_NODE ? node as Element : node.parentElement
+  while (el && !BLOCK_TAGS.has(el.tagName)) el = el.parentElement
+  return el
+}
+
+/**
+ * Nearest heading at or before a node in document order
+ */
+function findHeadingBefore(node: Node): string | undefined {
+  const doc = node.ownerDocument ?? document
+  const walker = doc.createTreeWalker(doc.documentElement, NodeFilter.SHOW_ELEMENT)
+  walker.currentNode = node.nodeType === Node.ELEMENT_NODE ? node : node.parentElement ?? doc.documentElement
+
+  for (let el = walker.currentNode as Element | null; el; el = walker.previousNode() as Element | null) {
+    if (!el.matches(HEADING_SELECTOR) || el.closest(OWN_UI_SELECTOR)) continue
+    const text = collapseWhitespace(el.textContent || '')
+    if (text) return text.slice(0, 200)
+  }
+  return undefined
+}
+
+function rangeLang(range: Range): string | undefined {
+  const start = range.startContainer
+  const el = start.nodeType === Node.ELEMENT_NODE ? start as Element : start.parentElement
+  return el?.closest('[lang]')?.getAttribute('lang') || undefined
+}
+
+function sentenceSegmenter(lang: string | undefined): Intl.Segmenter {
+  try {
+    return new Intl.Segmenter(lang, { granularity: 'sentence' })
+  } catch {
+    // Invalid lang attribute
+    return new Intl.Segmenter(undefined, { granularity: 'sentence' })
+  }
+}
+
+// ============================================================================
+// Passage Lookup (chat citations)
+// ============================================================================
+
+// Characters of a passage's start and end that are matched against the page
+const PASSAGE_KEY_CHARS = 60
+
+type TextIndex = {
+  text: string                             // Collapsed, lowercased text of the page
+  nodes: (Text | null)[]                   // Text node of each character (null for block separators)
+  offsets: number[]                        // Offset of each character in its node
+}
+
+/**
+ * Index the visible text of a document for searching
+ * Whitespace is collapsed and blocks are separated by a space, like the
+ * plain-text rendering after searchableText().
+ */
+function indexText(doc: Document): TextIndex {
+  const index: TextIndex = { text: '', nodes: [], offsets: [] }
+  const chars: string[] = []
+  const walker = doc.createTreeWalker(doc.body ?? doc.documentElement, NodeFilter.SHOW_TEXT, {
+    acceptNode: node => node.parentElement?.closest(NON_TEXT_SELECTOR) ? NodeFilter.FILTER_SKIP : NodeFilter.FILTER_ACCEPT,
+  })
+
+  let block: Element | null = null
+  for (let node = walker.nextNode() as Text | null; node; node = walker.nextNode() as Text | null) {
+    const nodeBlock = blockAncestor(node)
+    if (nodeBlock !== block && chars.length && chars[chars.length - 1] !== ' ') {
+      chars.push(' ')
+      index.nodes.push(null)
+      index.offsets.push(0)
+    }
+    block = nodeBlock
+
+    const data = node.data
+    for (let i = 0; i < data.length; i++) {
+      let ch = data[i]
+      if (/\s/.test(ch)) {
+        if (!chars.length || chars[chars.length - 1] === ' ') continue
+        ch = ' '
+      } else {
+        const lower = ch.toLowerCase()
+        if (lower.length === 1) ch = lower
+      }
+      chars.push(ch)
+      index.nodes.push(node)
+      index.offsets.push(i)
+    }
+  }
+  index.text = chars.join('')
+  return index
+}
+
+/**
+ * Text of a passage as it reads on the page: list, quote and heading
+ * markers, code fences and table separators removed, whitespace collapsed,
+ * lowercased
+ */
+function searchableText(passage: string): string {
+  return collapseWhitespace(passage
+    .split('\n')
+    .filter(line => !line.trim().startsWith('```'))
+    .map(line => line.replace(/^\s*(#{1,6} |[-*] |\d+\. |> ?)/, '').replace(/ \| /g, ' '))
+    .join(' ')
+  ).toLowerCase()
+}
+
+/**
+ * Find a passage of the extracted text (see splitPassages) in the live page
+ *
+ * The passage's first and last characters are searched in the page's
+ * visible text; the first visible match wins. When the end cannot be found
+ * near the start, only the start is returned.
+ *
+ * @returns A range over the passage, or null when it is not on the page
+ */
+export function findPassageRange(passage: string, doc: Document = document): Range | null {
+  const needle = searchableText(passage)
+  if (!needle) return null
+  const head = needle.slice(0, PASSAGE_KEY_CHARS).trim()
+  const tail = needle.slice(-PASSAGE_KEY_CHARS).trim()
+  const index = indexText(doc)
+
+  for (let start = index.text.indexOf(head); start !== -1; start = index.text.indexOf(head, start + 1)) {
+    const startNode = index.nodes[start]
+    if (!startNode || startNode.parentElement?.checkVisibility?.() === false) continue
+
+    let end = start + head.length
+    const tailAt = index.text.indexOf(tail, start)
+    if (tailAt !== -1 && tailAt + tail.length - start <= needle.length * 2 + 200) end = tailAt + tail.length
+    const endNode = index.nodes[end - 1]
+    if (!endNode) continue
+
+    const range = doc.createRange()
+    range.setStart(startNode, index.offsets[start])
+    range.setEnd(endNode, index.offsets[end - 1] + 1)
+    return range
+  }
+  return null
+}
+
+// ============================================================================
+// Text Helpers
+// ============================================================================
+
 /**
  * Detect if text looks like JSON data
  * Uses character ratio heuristic to identify JSON-heavy content
- * 
+ *
  * @param text - Text to check
  * @returns true if text appears to be JSON data
  */
@@ -84,24 +1027,28 @@ function looksLikeJSON(text: string): boolean {
   const jsonChars = text.match(/[{}\[\]":,]/g) || []
   const totalChars = text.length
   const jsonRatio = jsonChars.length / totalChars
-  
+
   // If >20% of characters are JSON syntax, assume it's JSON
   return jsonRatio > 0.2
 }
 
 /**
- * Clean extracted text
- * - Normalize whitespace (multiple spaces → single space)
- * - Limit consecutive newlines (max 2)
- * - Trim leading/trailing whitespace
- * 
- * @param text - Text to clean
- * @returns Cleaned text
+ * Collapse all whitespace, including source-formatting newlines, to single spaces
+ */
+function collapseWhitespace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * Normalize an inline run whose text nodes were already collapsed
+ * - Line breaks (from <br>, as "\n") are kept, one per break
+ * - Trim leading/trailing whitespace of each line
  */
-function cleanText(text: string): string {
+function normalizeInline(text: string): string {
   return text
-    .replace(/\s+/g, ' ')           // Normalize whitespace
-    .replace(/\n{3,}/g, '\n\n')     // Max 2 consecutive newlines
-    .trim()
+    .replace(/ +/g, ' ')
+    .split('\n')
+    .map(line => line.trim())
+    .filter(Boolean)
+    .join('\n')
 }
-  
\ No newline at end of file
@@ -0,0 +1,55 @@
+/**
+ * Anki Export - Flashcards from explanations and translations
+ *
+ * Writes a CSV Anki's "Import File" reads without setup: the header lines
+ * declare the separator, that fields are HTML, and which column holds tags.
+ * Front: the term or passage, back: the explanation or translation
+ * (Markdown rendered) and a link to its page.
+ */
+
+import type { Note, NoteKind } from '../../utils/messaging'
+import { escapeHtml, renderText } from './html'
+
+// Note kinds that make a card
+const ANKI_KINDS: NoteKind[] = ['explain', 'translation']
+
+/**
+ * Whether a note makes a card: an explanation or translation with its source
+ */
+export function isAnkiCard(note: Note): boolean {
+  return ANKI_KINDS.includes(note.kind) && !!note.snippet
+}
+
+/**
+ * Quote a CSV field (RFC 4180)
+ */
+function csvField(value: string): string {
+  return /[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+/**
+ * Plain text as an HTML field: escaped, with line breaks kept
+ */
+function htmlField(text: string): string {
+  return escapeHtml(text.trim()).replace(/\r?\n/g, '<br>')
+}
+
+/**
+ * Anki tags: one word each
+ */
+function ankiTags(note: Note): string {
+  return ['ai-notes', note.kind, ...(note.tags || [])].map(t => t.trim().replace(/\s+/g, '_')).filter(Boolean).join(' ')
+}
+
+/**
+ * Cards for the explanation and translation notes; other kinds are skipped
+ */
+export function ankiCsv(notes: Note[]): string {
+  const rows = notes
+    .filter(isAnkiCard)
+    .map((n) => {
+      const back = `${renderText(n.text).trim()}<small><a href="${escapeHtml(n.sourceUrl)}">${escapeHtml(n.pageTitle || n.sourceUrl)}</a></small>`
+      return [htmlField(n.snippet!), back, ankiTags(n)].map(csvField).join(',')
+    })
+  return ['#separator:Comma', '#html:true', '#tags column:3', ...rows].join('\n') + '\n'
+}
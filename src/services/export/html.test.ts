@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import type { Note } from '../../utils/messaging'
+import { ankiCsv } from './anki'
+import { htmlReport, renderText } from './html'
+
+function note(text: string): Note {
+  return { id: 'n1', sourceUrl: 'https://example.com/a', pageTitle: 'A page', kind: 'explain', text, snippet: 'term', createdAt: 0 }
+}
+
+describe('renderText', () => {
+  it('drops links with unsafe schemes and keeps their text', () => {
+    const html = renderText('[x](javascript:alert(document.cookie)) and [y](data:text/html,hi)')
+    expect(html).not.toMatch(/href/)
+    expect(html).toContain('x and y')
+  })
+
+  it('keeps http(s) and mailto links', () => {
+    const html = renderText('[site](https://example.com) [mail](mailto:a@example.com)')
+    expect(html).toContain('<a href="https://example.com">site</a>')
+    expect(html).toContain('<a href="mailto:a@example.com">mail</a>')
+  })
+
+  it('shows raw HTML as text', () => {
+    const html = renderText('<script>alert(1)</script>\n\nhi <img src=x onerror=alert(1)>')
+    expect(html).not.toMatch(/<script|<img/)
+    expect(html).toContain('&lt;script&gt;')
+  })
+
+  it('drops images with unsafe sources', () => {
+    expect(renderText('![alt](javascript:alert(1))')).not.toMatch(/<img/)
+    expect(renderText('![alt](https://example.com/a.png)')).toContain('<img src="https://example.com/a.png" alt="alt">')
+  })
+
+  it('renders Markdown that contains HTML characters', () => {
+    expect(renderText('`a < b && c`')).toContain('<code>a &lt; b &amp;&amp; c</code>')
+    expect(renderText('> quote')).toContain('<blockquote>')
+  })
+})
+
+describe('exports', () => {
+  it('keeps unsafe links out of the HTML report and Anki backs', () => {
+    const notes = [note('[x](javascript:alert(1)) <b onclick="x()">b</b>')]
+    for (const out of [htmlReport(notes, 0), ankiCsv(notes)]) {
+      expect(out).not.toMatch(/javascript:|<b /)
+    }
+  })
+})
@@ -0,0 +1,125 @@
+/**
+ * HTML Export - A single self-contained report of the notes
+ *
+ * Styles are inlined, so the file opens anywhere without the extension.
+ * Note text is rendered as Markdown with raw HTML shown as text, and only
+ * http(s) and mailto links (http(s) images) are kept, so nothing in a note
+ * can run script in the report.
+ */
+
+import { Marked } from 'marked'
+import type { Note } from '../../utils/messaging'
+import { noteTitle } from './markdown'
+
+const REPORT_STYLES = `
+  body { max-width: 760px; margin: 32px auto; padding: 0 16px; font: 15px/1.6 system-ui, -apple-system, 'Segoe UI', sans-serif; color: #202124; }
+  header { border-bottom: 1px solid #e8eaed; margin-bottom: 24px; }
+  header p { color: #5f6368; }
+  article { border: 1px solid #e8eaed; border-radius: 8px; padding: 16px 20px; margin-bottom: 16px; break-inside: avoid; }
+  article h2 { font-size: 18px; margin: 4px 0 2px; }
+  .kind { display: inline-block; padding: 1px 8px; border-radius: 4px; font-size: 11px; font-weight: 600; text-transform: uppercase; background: #e8f0fe; color: #1a73e8; }
+  .meta { font-size: 12px; color: #5f6368; }
+  .meta a { color: #1a73e8; }
+  .tags span { display: inline-block; margin-right: 6px; font-size: 12px; color: #1a73e8; }
+  blockquote { margin: 12px 0 0; padding: 4px 12px; border-left: 3px solid #dadce0; color: #3c4043; white-space: pre-wrap; }
+  .turn { margin: 8px 0; }
+  .turn.assistant { margin-left: 16px; padding-left: 12px; border-left: 2px solid #e8eaed; }
+  .speaker { font-size: 12px; font-weight: 600; color: #5f6368; }
+  details { margin-top: 12px; }
+`
+
+export function escapeHtml(text: string): string {
+  return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+}
+
+// Link and image targets kept in rendered notes; other schemes
+// (javascript:, data:, vbscript:...) leave only the link text or alt text
+const SAFE_LINK = /^\s*(https?|mailto):/i
+const SAFE_IMAGE = /^\s*https?:/i
+
+function titleAttr(title: string | null | undefined): string {
+  return title ? ` title="${escapeHtml(title)}"` : ''
+}
+
+const noteMarkdown = new Marked({
+  gfm: true,
+  renderer: {
+    html({ text }) {
+      return escapeHtml(text)
+    },
+    link({ href, title, tokens }) {
+      const text = this.parser.parseInline(tokens)
+      return SAFE_LINK.test(href) ? `<a href="${escapeHtml(href)}"${titleAttr(title)}>${text}</a>` : text
+    },
+    image({ href, title, text }) {
+      return SAFE_IMAGE.test(href) ? `<img src="${escapeHtml(href)}" alt="${escapeHtml(text)}"${titleAttr(title)}>` : escapeHtml(text)
+    },
+  },
+})
+
+/**
+ * Markdown text as HTML, safe to embed: raw HTML is escaped and unsafe
+ * link targets are dropped
+ */
+export function renderText(text: string): string {
+  return noteMarkdown.parse(text, { async: false })
+}
+
+function renderNoteText(note: Note): string {
+  if (!note.turns) return renderText(note.text)
+  return note.turns.map(turn => `
+    <div class="turn ${turn.role}">
+      <div class="speaker">${turn.role === 'user' ? 'You' : 'Assistant'}</div>
+      ${renderText(turn.content)}
+    </div>`).join('')
+}
+
+function renderNote(note: Note): string {
+  const pages = note.pageRange
+    ? ` · ${note.pageRange.from === note.pageRange.to ? `p. ${note.pageRange.from}` : `pp. ${note.pageRange.from}–${note.pageRange.to}`}`
+    : ''
+  const tags = note.tags?.length
+    ? `<div class="tags">${note.tags.map(t => `<span>#${escapeHtml(t)}</span>`).join('')}</div>`
+    : ''
+  const summary = note.pageSummary
+    ? `<details><summary>Page summary</summary>${renderText(note.pageSummary)}</details>`
+    : ''
+  const snippet = note.snippet ? `<blockquote>${escapeHtml(note.snippet)}</blockquote>` : ''
+
+  return `
+  <article>
+    <span class="kind">${escapeHtml(note.kind)}</span>
+    <h2>${escapeHtml(noteTitle(note))}</h2>
+    <div class="meta">
+      <a href="${escapeHtml(note.sourceUrl)}">${escapeHtml(note.pageTitle || note.sourceUrl)}</a>${pages}
+      · ${escapeHtml(new Date(note.createdAt).toLocaleString())}
+    </div>
+    ${tags}
+    ${renderNoteText(note)}
+    ${summary}
+    ${snippet}
+  </article>`
+}
+
+/**
+ * The notes as one HTML page
+ */
+export function htmlReport(notes: Note[], now = Date.now()): string {
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>AI Notes</title>
+<style>${REPORT_STYLES}</style>
+</head>
+<body>
+<header>
+  <h1>AI Notes</h1>
+  <p>${notes.length} notes · exported ${escapeHtml(new Date(now).toLocaleString())}</p>
+</header>
+${notes.map(renderNote).join('\n')}
+</body>
+</html>
+`
+}
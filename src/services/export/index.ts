@@ -0,0 +1,106 @@
+/**
+ * Notes Export
+ *
+ * Builds a downloadable file from a list of notes in one of these formats:
+ * - 'markdown': one Markdown file per note with YAML front matter (zipped
+ *   when there is more than one note)
+ * - 'obsidian': a zipped Obsidian vault folder (see markdown.ts)
+ * - 'html': a single self-contained report
+ * - 'anki': a CSV of flashcards from explanations and translations
+ * - 'json': the raw notes
+ *
+ * Filtering by kind and date happens here; the popup passes notes already
+ * matching its search.
+ */
+
+import { strToU8, zipSync } from 'fflate'
+import type { Note, NoteKind } from '../../utils/messaging'
+import { ankiCsv, isAnkiCard } from './anki'
+import { htmlReport } from './html'
+import { isoDate, markdownEntries, obsidianEntries } from './markdown'
+
+export type ExportFormat = 'markdown' | 'obsidian' | 'html' | 'anki' | 'json'
+
+export const EXPORT_FORMATS: ExportFormat[] = ['markdown', 'obsidian', 'html', 'anki', 'json']
+
+export const EXPORT_FORMAT_LABELS: Record<ExportFormat, string> = {
+  'markdown': 'Markdown',
+  'obsidian': 'Obsidian vault',
+  'html': 'HTML report',
+  'anki': 'Anki CSV',
+  'json': 'JSON',
+}
+
+/**
+ * Which notes to export; every field is optional
+ */
+export type ExportFilter = {
+  kind?: NoteKind
+  from?: number          // Created at or after (ms)
+  to?: number            // Created before (ms)
+}
+
+// A file inside an export archive
+export type ExportEntry = {
+  path: string
+  content: string
+}
+
+export type ExportFile = {
+  name: string
+  blob: Blob
+}
+
+export function filterNotes(notes: Note[], filter: ExportFilter): Note[] {
+  return notes.filter(n =>
+    (!filter.kind || n.kind === filter.kind)
+    && (filter.from === undefined || n.createdAt >= filter.from)
+    && (filter.to === undefined || n.createdAt < filter.to))
+}
+
+/**
+ * The notes a format can export (Anki cards need a term and its meaning)
+ */
+export function exportableNotes(notes: Note[], format: ExportFormat): Note[] {
+  return format === 'anki' ? notes.filter(isAnkiCard) : notes
+}
+
+function zip(entries: ExportEntry[]): Blob {
+  const files = Object.fromEntries(entries.map(e => [e.path, strToU8(e.content)]))
+  return new Blob([zipSync(files, { level: 6 })], { type: 'application/zip' })
+}
+
+/**
+ * Build the export file for the notes
+ */
+export function buildExport(notes: Note[], format: ExportFormat, now = Date.now()): ExportFile {
+  const base = `ai-notes-${isoDate(now)}`
+  switch (format) {
+    case 'markdown':
+      if (notes.length === 1) {
+        const [entry] = markdownEntries(notes)
+        return { name: entry.path, blob: new Blob([entry.content], { type: 'text/markdown' }) }
+      }
+      return { name: `${base}.zip`, blob: zip(markdownEntries(notes)) }
+    case 'obsidian':
+      return { name: `${base}-obsidian.zip`, blob: zip(obsidianEntries(notes)) }
+    case 'html':
+      return { name: `${base}.html`, blob: new Blob([htmlReport(notes, now)], { type: 'text/html' }) }
+    case 'anki':
+      return { name: `${base}-anki.csv`, blob: new Blob([ankiCsv(notes)], { type: 'text/csv' }) }
+    case 'json':
+      return { name: `${base}.json`, blob: new Blob([JSON.stringify(notes, null, 2)], { type: 'application/json' }) }
+  }
+}
+
+/**
+ * Save an export file through the browser's download
+ */
+export function downloadExport(file: ExportFile) {
+  const url = URL.createObjectURL(file.blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = file.name
+  a.click()
+  URL.revokeObjectURL(url)
+}
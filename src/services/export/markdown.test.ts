@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest'
+import type { Note, NoteKind } from '../../utils/messaging'
+import { markdownEntries, obsidianEntries } from './markdown'
+
+const DAY = new Date(2026, 4, 12, 9).getTime()
+
+function note(id: string, kind: NoteKind, createdAt = DAY): Note {
+  return { id, sourceUrl: 'https://example.com/tides', pageTitle: 'Tides explained', kind, text: `${kind} text`, createdAt }
+}
+
+describe('file names', () => {
+  it('keeps same-day notes of different kinds from one page apart in plain Markdown', () => {
+    const paths = markdownEntries([note('a', 'summary'), note('b', 'chat', DAY + 60_000), note('c', 'note')]).map(e => e.path)
+    expect(paths).toEqual([
+      '2026-05-12 Tides explained.md',
+      '2026-05-12 Tides explained (2).md',
+      '2026-05-12 Tides explained (3).md',
+    ])
+  })
+
+  it('only numbers names that share a folder in the Obsidian vault', () => {
+    const paths = obsidianEntries([note('a', 'summary'), note('b', 'chat'), note('c', 'summary')]).map(e => e.path)
+    expect(paths).toEqual([
+      'AI Notes/Summaries/2026-05-12 Tides explained.md',
+      'AI Notes/Conversations/2026-05-12 Tides explained.md',
+      'AI Notes/Summaries/2026-05-12 Tides explained (2).md',
+      'AI Notes/Index.md',
+    ])
+  })
+})
@@ -0,0 +1,168 @@
+/**
+ * Markdown Export - One Markdown file per note, with YAML front matter
+ *
+ * Plain Markdown puts every note in one folder; the Obsidian vault sorts
+ * notes into a folder per kind, turns kinds and tags into Obsidian tags and
+ * adds an index note linking every note under its page.
+ */
+
+import type { Note, NoteKind } from '../../utils/messaging'
+import type { ExportEntry } from './index'
+
+// Vault root folder and the folder for each kind
+const VAULT_ROOT = 'AI Notes'
+const KIND_FOLDERS: Record<NoteKind, string> = {
+  summary: 'Summaries',
+  explain: 'Explanations',
+  translation: 'Translations',
+  note: 'Notes',
+  chat: 'Conversations',
+}
+
+const MAX_TITLE_CHARS = 60
+
+/**
+ * Short title for a note: the term or passage for explanations and
+ * translations, the page title otherwise
+ */
+export function noteTitle(note: Note): string {
+  const source = (note.kind === 'explain' || note.kind === 'translation') && note.snippet
+    ? note.snippet
+    : note.pageTitle || note.sourceUrl || note.kind
+  const line = source.replace(/\s+/g, ' ').trim()
+  return line.length > MAX_TITLE_CHARS ? `${line.slice(0, MAX_TITLE_CHARS - 1)}…` : line
+}
+
+/**
+ * YYYY-MM-DD in local time
+ */
+export function isoDate(time: number): string {
+  const d = new Date(time)
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`
+}
+
+/**
+ * File name (without extension) safe on every OS
+ */
+function safeName(text: string): string {
+  return text.replace(/[\\/:*?"<>|#^[\]]+/g, ' ').replace(/\s+/g, ' ').trim().slice(0, MAX_TITLE_CHARS) || 'note'
+}
+
+/**
+ * Give each note a file name, unique within its folder: date, then title
+ *
+ * @param folderOf - The folder a note is written to
+ */
+function fileNames(notes: Note[], folderOf: (note: Note) => string): Map<Note, string> {
+  const used = new Set<string>()
+  const names = new Map<Note, string>()
+  for (const note of notes) {
+    const base = `${isoDate(note.createdAt)} ${safeName(noteTitle(note))}`
+    const key = (name: string) => `${folderOf(note)}/${name.toLowerCase()}`
+    let name = base
+    for (let n = 2; used.has(key(name)); n++) name = `${base} (${n})`
+    used.add(key(name))
+    names.set(note, name)
+  }
+  return names
+}
+
+/**
+ * YAML front matter; strings are JSON-quoted, which YAML reads as
+ * double-quoted scalars
+ */
+function frontMatter(fields: Record<string, string | string[] | undefined>): string {
+  const lines = Object.entries(fields)
+    .filter(([, value]) => value !== undefined && value.length > 0)
+    .map(([key, value]) => Array.isArray(value)
+      ? `${key}:\n${value.map(v => `  - ${JSON.stringify(v)}`).join('\n')}`
+      : `${key}: ${JSON.stringify(value)}`)
+  return `---\n${lines.join('\n')}\n---`
+}
+
+function pagesField(note: Note): string | undefined {
+  const range = note.pageRange
+  if (!range) return undefined
+  return range.from === range.to ? `${range.from}` : `${range.from}-${range.to}`
+}
+
+/**
+ * Markdown body of a note: the text, then the passage it was made from
+ * (or, for chats, the page summary)
+ */
+function noteBody(note: Note): string {
+  const parts = [`# ${noteTitle(note)}`, note.text.trim()]
+  if (note.pageSummary) {
+    parts.push(`## Page summary\n\n${note.pageSummary.trim()}`)
+  }
+  if (note.snippet) {
+    parts.push(`## Source\n\n${note.snippet.trim().split('\n').map(line => `> ${line}`).join('\n')}`)
+  }
+  return parts.join('\n\n')
+}
+
+/**
+ * A note as a Markdown document with YAML front matter
+ */
+export function noteToMarkdown(note: Note): string {
+  const meta = frontMatter({
+    title: noteTitle(note),
+    url: note.sourceUrl,
+    page: note.pageTitle,
+    kind: note.kind,
+    lang: note.lang,
+    date: new Date(note.createdAt).toISOString(),
+    updated: note.updatedAt ? new Date(note.updatedAt).toISOString() : undefined,
+    pages: pagesField(note),
+    tags: note.tags,
+  })
+  return `${meta}\n\n${noteBody(note)}\n`
+}
+
+/**
+ * One Markdown file per note
+ */
+export function markdownEntries(notes: Note[]): ExportEntry[] {
+  const names = fileNames(notes, () => '')
+  return notes.map(note => ({ path: `${names.get(note)}.md`, content: noteToMarkdown(note) }))
+}
+
+/**
+ * Obsidian tag: no spaces, nested with "/"
+ */
+function obsidianTag(tag: string): string {
+  return tag.trim().replace(/\s+/g, '-').replace(/[^\p{L}\p{N}_/-]/gu, '')
+}
+
+/**
+ * An Obsidian vault folder: notes by kind, plus an index note grouping
+ * links to them by page
+ */
+export function obsidianEntries(notes: Note[]): ExportEntry[] {
+  const names = fileNames(notes, note => KIND_FOLDERS[note.kind])
+  const links = new Map<string, string[]>()          // Page → links to its notes
+
+  const entries = notes.map((note) => {
+    const path = `${KIND_FOLDERS[note.kind]}/${names.get(note)}`
+    const pageKey = note.pageTitle || note.sourceUrl
+    links.set(pageKey, [...(links.get(pageKey) || []), `- [[${path}|${noteTitle(note)}]] (${note.kind})`])
+
+    const meta = frontMatter({
+      source: note.sourceUrl,
+      page: note.pageTitle,
+      kind: note.kind,
+      lang: note.lang,
+      created: new Date(note.createdAt).toISOString(),
+      updated: note.updatedAt ? new Date(note.updatedAt).toISOString() : undefined,
+      pages: pagesField(note),
+      tags: [`ai-notes/${note.kind}`, ...(note.tags || []).map(obsidianTag).filter(Boolean)],
+    })
+    return { path: `${VAULT_ROOT}/${path}.md`, content: `${meta}\n\n${noteBody(note)}\n` }
+  })
+
+  const index = [...links.entries()]
+    .map(([page, items]) => `## ${page}\n\n${items.join('\n')}`)
+    .join('\n\n')
+  entries.push({ path: `${VAULT_ROOT}/Index.md`, content: `# AI Notes\n\n${index}\n` })
+  return entries
+}
@@ -0,0 +1,173 @@
+/**
+ * PDF Extraction - Text of PDF documents, page by page
+ *
+ * Uses the bundled pdf.js parser. pdf.js normally parses in a Web Worker,
+ * but a content script cannot start a worker from the extension's origin,
+ * so the worker module is loaded into this context and pdf.js runs it on
+ * the main thread. Both modules are imported on first use only, which keeps
+ * pdf.js out of the way on ordinary pages.
+ *
+ * The plain-text rendering marks every page with a `[Page N]` line, which
+ * survives whitespace normalization and lets the chat model cite pages.
+ */
+
+import type { ContentBlock, ContentSection, ExtractedDocument } from './domExtract'
+
+// Pages after this are left out (summaries and chat read a bounded input anyway)
+const MAX_PDF_PAGES = 300
+
+type TextRun = { str: string; hasEOL: boolean }
+
+async function loadPdfjs() {
+  const pdfjs = await import('pdfjs-dist')
+  const scope = globalThis as { pdfjsWorker?: unknown }
+  if (!scope.pdfjsWorker) {
+    scope.pdfjsWorker = await import('pdfjs-dist/build/pdf.worker.mjs')
+  }
+  return pdfjs
+}
+
+/**
+ * Download a document's bytes
+ * file:// URLs need XMLHttpRequest (fetch does not support the scheme) and
+ * the extension's "Allow access to file URLs" setting.
+ */
+export async function fetchDocumentBytes(url: string): Promise<ArrayBuffer> {
+  if (!url.startsWith('file:')) {
+    const res = await fetch(url, { credentials: 'include' })
+    if (!res.ok) throw new Error(`Failed to download the PDF (HTTP ${res.status})`)
+    return res.arrayBuffer()
+  }
+
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest()
+    xhr.open('GET', url)
+    xhr.responseType = 'arraybuffer'
+    xhr.onload = () => resolve(xhr.response as ArrayBuffer)
+    xhr.onerror = () => reject(new Error('Cannot read local files. Turn on "Allow access to file URLs" for this extension in chrome://extensions.'))
+    xhr.send()
+  })
+}
+
+/**
+ * Join a page's text items into paragraphs
+ * pdf.js reports line ends; an empty line starts a new paragraph, other
+ * lines are joined, including words hyphenated across lines.
+ */
+function pageParagraphs(items: TextRun[]): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const item of items) {
+    line += item.str
+    if (item.hasEOL) {
+      lines.push(line.replace(/\s+/g, ' ').trim())
+      line = ''
+    }
+  }
+  if (line.trim()) lines.push(line.replace(/\s+/g, ' ').trim())
+
+  const paragraphs: string[] = []
+  let current = ''
+  for (const text of lines) {
+    if (!text) {
+      if (current) paragraphs.push(current)
+      current = ''
+      continue
+    }
+    if (!current) current = text
+    else if (current.endsWith('-') && /^\p{Ll}/u.test(text)) current = current.slice(0, -1) + text
+    else current += ' ' + text
+  }
+  if (current) paragraphs.push(current)
+  return paragraphs
+}
+
+/**
+ * Extract the text of a PDF
+ *
+ * Each page becomes a section headed "Page N"; `pages` holds the text of
+ * each page for page lookups (see findInPages).
+ *
+ * @param data - The PDF file
+ * @param fallbackTitle - Title when the PDF has no Title metadata (e.g. the file name)
+ */
+export async function extractPdf(data: ArrayBuffer, fallbackTitle: string): Promise<ExtractedDocument> {
+  const pdfjs = await loadPdfjs()
+  const pdf = await pdfjs.getDocument({ data, isEvalSupported: false, disableFontFace: true }).promise
+
+  try {
+    const meta = await pdf.getMetadata().catch(() => null)
+    const info = (meta?.info ?? {}) as { Title?: string; Author?: string }
+    const pageCount = Math.min(pdf.numPages, MAX_PDF_PAGES)
+    if (pdf.numPages > MAX_PDF_PAGES) {
+      console.log(`[PDF] ${pdf.numPages} pages, reading the first ${MAX_PDF_PAGES}`)
+    }
+
+    const sections: ContentSection[] = []
+    const pages: string[] = []
+    for (let n = 1; n <= pageCount; n++) {
+      const page = await pdf.getPage(n)
+      const content = await page.getTextContent()
+      const paragraphs = pageParagraphs(content.items.flatMap(item => 'str' in item ? [{ str: item.str, hasEOL: item.hasEOL }] : []))
+      page.cleanup()
+
+      pages.push(paragraphs.join('\n\n'))
+      sections.push({
+        heading: `Page ${n}`,
+        level: 2,
+        blocks: paragraphs.map((text): ContentBlock => ({ type: 'paragraph', text })),
+      })
+    }
+
+    const title = info.Title?.trim() || fallbackTitle
+    const byline = info.Author?.trim() || undefined
+    const body = pages.map((text, i) => `[Page ${i + 1}]\n${text}`).join('\n\n')
+
+    return {
+      title,
+      byline,
+      sections,
+      pages,
+      text: [`# ${title}`, byline ? `By ${byline}` : '', body].filter(Boolean).join('\n\n'),
+    }
+  } finally {
+    pdf.destroy()
+  }
+}
+
+/**
+ * Collapse whitespace for matching text against extracted pages
+ */
+function matchable(text: string): string {
+  return text.replace(/\s+/g, ' ').trim().toLowerCase()
+}
+
+/**
+ * Find a snippet in a PDF's pages
+ *
+ * @returns The pages the snippet starts and ends on, and up to `contextChars`
+ *   of text around its start, or null when it is not found
+ */
+export function findInPages(pages: string[], snippet: string, contextChars = 400): { from: number; to: number; context: string } | null {
+  const needle = matchable(snippet)
+  if (!needle) return null
+  const head = needle.slice(0, 60)
+  const tail = needle.slice(-60)
+
+  const normalized = pages.map(matchable)
+  const from = normalized.findIndex(page => page.includes(head))
+  if (from === -1) return null
+
+  let to = from
+  for (let i = from; i < normalized.length && i < from + 20; i++) {
+    if (normalized[i].includes(tail)) {
+      to = i
+      break
+    }
+  }
+
+  const page = pages[from].replace(/\s+/g, ' ')
+  const at = normalized[from].indexOf(head)
+  const start = Math.max(0, at - contextChars / 2)
+  return { from: from + 1, to: to + 1, context: page.slice(start, start + contextChars + needle.length) }
+}
@@ -0,0 +1,28 @@
+/**
+ * Chrome Built-in AI Provider
+ *
+ * Exposes Chrome's on-device APIs (Gemini Nano) through the AIProvider
+ * interface. Getters are evaluated on each access, so an API that is not
+ * exposed in this context (flag disabled, old Chrome) reads as undefined.
+ *
+ * @see https://developer.chrome.com/docs/ai/built-in-apis
+ */
+
+import type { AIProvider } from './types'
+
+export const chromeProvider: AIProvider = {
+  id: 'chrome',
+  label: 'Chrome built-in AI (Gemini Nano)',
+  get summarizer() {
+    return 'Summarizer' in self ? Summarizer : undefined
+  },
+  get translator() {
+    return 'Translator' in self ? Translator : undefined
+  },
+  get languageDetector() {
+    return 'LanguageDetector' in self ? LanguageDetector : undefined
+  },
+  get languageModel() {
+    return 'LanguageModel' in self ? LanguageModel : undefined
+  },
+}
@@ -0,0 +1,86 @@
+/**
+ * Fallback Provider - Per-API routing between two providers
+ *
+ * Uses the primary provider's API whenever it is present and not reported
+ * as 'unavailable', and the fallback's otherwise. The decision is made per
+ * API and per call, so e.g. Chrome's Translator can keep serving
+ * translations while a local server answers prompts on a machine that
+ * cannot run Gemini Nano.
+ */
+
+import type { AIProvider, Availability } from './types'
+
+/**
+ * Whether an API should be served by the primary provider
+ */
+async function preferPrimary(check: (() => Promise<Availability>) | undefined): Promise<boolean> {
+  if (!check) return false
+  try {
+    return (await check()) !== 'unavailable'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Combine two providers, preferring `primary` for each API
+ */
+export function withFallback(primary: AIProvider, fallback: AIProvider): AIProvider {
+  const summarizer: typeof Summarizer | undefined = fallback.summarizer && {
+    availability: async () => {
+      const api = primary.summarizer
+      return await preferPrimary(api && (() => api.availability())) ? api!.availability() : fallback.summarizer!.availability()
+    },
+    create: async (options) => {
+      const api = primary.summarizer
+      return await preferPrimary(api && (() => api.availability())) ? api!.create(options) : fallback.summarizer!.create(options)
+    },
+  }
+
+  const translator: typeof Translator | undefined = fallback.translator && {
+    availability: async (options) => {
+      const api = primary.translator
+      return await preferPrimary(api && (() => api.availability(options))) ? api!.availability(options) : fallback.translator!.availability(options)
+    },
+    create: async (options) => {
+      const api = primary.translator
+      const pair = { sourceLanguage: options.sourceLanguage, targetLanguage: options.targetLanguage }
+      return await preferPrimary(api && (() => api.availability(pair))) ? api!.create(options) : fallback.translator!.create(options)
+    },
+  }
+
+  const languageDetector: typeof LanguageDetector | undefined = fallback.languageDetector && {
+    availability: async () => {
+      const api = primary.languageDetector
+      return await preferPrimary(api && (() => api.availability())) ? api!.availability() : fallback.languageDetector!.availability()
+    },
+    create: async (options) => {
+      const api = primary.languageDetector
+      return await preferPrimary(api && (() => api.availability())) ? api!.create(options) : fallback.languageDetector!.create(options)
+    },
+  }
+
+  const languageModel: typeof LanguageModel | undefined = fallback.languageModel && {
+    availability: async () => {
+      const api = primary.languageModel
+      return await preferPrimary(api && (() => api.availability())) ? api!.availability() : fallback.languageModel!.availability()
+    },
+    params: async () => {
+      const api = primary.languageModel
+      return await preferPrimary(api && (() => api.availability())) ? api!.params() : fallback.languageModel!.params()
+    },
+    create: async (options) => {
+      const api = primary.languageModel
+      return await preferPrimary(api && (() => api.availability())) ? api!.create(options) : fallback.languageModel!.create(options)
+    },
+  }
+
+  return {
+    id: fallback.id,
+    label: `${primary.label}, falling back to ${fallback.label}`,
+    summarizer: summarizer ?? primary.summarizer,
+    translator: translator ?? primary.translator,
+    languageDetector: languageDetector ?? primary.languageDetector,
+    languageModel: languageModel ?? primary.languageModel,
+  }
+}
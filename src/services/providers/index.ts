@@ -0,0 +1,61 @@
+/**
+ * AI Provider Registry
+ *
+ * Resolves the provider selected in settings ('aiProvider'):
+ * - 'chrome' (default): Chrome built-in AI
+ * - 'mock': deterministic canned output, for testing without Gemini Nano
+ * - 'local-http': Chrome built-in AI, falling back to an OpenAI-compatible
+ *   server on localhost (setting 'localHttp') for APIs Chrome reports as
+ *   unavailable
+ */
+
+import { getSetting } from '../storage'
+import { chromeProvider } from './chrome'
+import { withFallback } from './fallback'
+import { createLocalHttpProvider, DEFAULT_LOCAL_HTTP_CONFIG, type LocalHttpConfig } from './localHttp'
+import { createMockProvider } from './mock'
+import type { AIProvider, ProviderId } from './types'
+
+export type { AIProvider, ProviderId } from './types'
+export type { LocalHttpConfig } from './localHttp'
+
+export const PROVIDER_IDS: ProviderId[] = ['chrome', 'mock', 'local-http']
+
+export const PROVIDER_LABELS: Record<ProviderId, string> = {
+  'chrome': 'Chrome built-in AI',
+  'mock': 'Mock (testing)',
+  'local-http': 'Chrome built-in AI + local server fallback',
+}
+
+/**
+ * Get the local server settings (settings key 'localHttp'), filled with defaults
+ */
+export async function getLocalHttpConfig(): Promise<LocalHttpConfig> {
+  const saved = await getSetting<Partial<LocalHttpConfig>>('localHttp')
+  return { ...DEFAULT_LOCAL_HTTP_CONFIG, ...saved }
+}
+
+/**
+ * Create the provider for an id
+ */
+export function createProvider(id: ProviderId, localHttp: LocalHttpConfig = DEFAULT_LOCAL_HTTP_CONFIG): AIProvider {
+  switch (id) {
+    case 'local-http':
+      return withFallback(chromeProvider, createLocalHttpProvider(localHttp))
+    case 'mock':
+      // Small delay so streaming is visible in the UI
+      return createMockProvider({ streamDelayMs: 30 })
+    case 'chrome':
+    default:
+      return chromeProvider
+  }
+}
+
+/**
+ * Create the provider selected in settings
+ */
+export async function loadProviderFromSettings(): Promise<AIProvider> {
+  const id = await getSetting<ProviderId>('aiProvider')
+  const localHttp = await getLocalHttpConfig()
+  return createProvider(id && PROVIDER_IDS.includes(id) ? id : 'chrome', localHttp)
+}
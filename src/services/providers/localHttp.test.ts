@@ -0,0 +1,152 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from 'node:http'
+import type { AddressInfo } from 'node:net'
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { withFallback } from './fallback'
+import { completionsUrl, createLocalHttpProvider, streamChatCompletion, type ChatCompletionMessage, type LocalHttpConfig } from './localHttp'
+import { createMockProvider } from './mock'
+
+type Reply = (req: IncomingMessage, body: string, res: ServerResponse) => void
+
+let server: Server
+let config: LocalHttpConfig
+let reply: Reply
+const requests: { url?: string; auth?: string; body: { model: string; stream: boolean; messages: ChatCompletionMessage[] } }[] = []
+
+function sse(events: string[]): Reply {
+  return (_req, _body, res) => {
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+    for (const event of events) res.write(`${event}\n\n`)
+    res.end()
+  }
+}
+
+const delta = (content: string) => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}`
+
+async function collect(stream: AsyncGenerator<string>): Promise<string[]> {
+  const chunks: string[] = []
+  for await (const chunk of stream) chunks.push(chunk)
+  return chunks
+}
+
+beforeAll(async () => {
+  server = createServer((req, res) => {
+    let body = ''
+    req.on('data', (c) => { body += c })
+    req.on('end', () => {
+      requests.push({ url: req.url, auth: req.headers.authorization, body: JSON.parse(body) })
+      reply(req, body, res)
+    })
+  })
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  config = { endpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`, model: 'test-model' }
+})
+
+afterAll(() => new Promise<void>(resolve => {
+  server.closeAllConnections()
+  server.close(() => resolve())
+}))
+
+afterEach(() => {
+  requests.length = 0
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('completionsUrl', () => {
+  it('accepts base URLs with or without /v1', () => {
+    expect(completionsUrl('http://localhost:11434/')).toBe('http://localhost:11434/v1/chat/completions')
+    expect(completionsUrl('http://localhost:8080/v1')).toBe('http://localhost:8080/v1/chat/completions')
+  })
+})
+
+describe('streamChatCompletion', () => {
+  it('yields content deltas until [DONE]', async () => {
+    reply = sse([': keep-alive', delta('Hel'), delta('lo'), 'data: [DONE]', delta('ignored')])
+    const chunks = await collect(streamChatCompletion({ ...config, apiKey: 'k' }, [{ role: 'user', content: 'hi' }]))
+    expect(chunks).toEqual(['Hel', 'lo'])
+    expect(requests[0]).toMatchObject({
+      url: '/v1/chat/completions',
+      auth: 'Bearer k',
+      body: { model: 'test-model', stream: true, messages: [{ role: 'user', content: 'hi' }] },
+    })
+  })
+
+  it('skips malformed events', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    reply = sse([delta('a'), 'data: {"choices": [', delta('b'), 'data: [DONE]'])
+    await expect(collect(streamChatCompletion(config, []))).resolves.toEqual(['a', 'b'])
+    expect(warn).toHaveBeenCalledOnce()
+  })
+
+  it('skips events that are not objects', async () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    reply = sse([delta('a'), 'data: null', 'data: 42', delta('b'), 'data: [DONE]'])
+    await expect(collect(streamChatCompletion(config, []))).resolves.toEqual(['a', 'b'])
+    expect(warn).toHaveBeenCalledTimes(2)
+  })
+
+  it('reads a last event without a trailing newline', async () => {
+    reply = (_req, _body, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+      res.end(`${delta('a')}\n\n${delta('b')}`)
+    }
+    await expect(collect(streamChatCompletion(config, []))).resolves.toEqual(['a', 'b'])
+  })
+
+  it('throws on error payloads', async () => {
+    reply = sse([delta('a'), `data: ${JSON.stringify({ error: { message: 'model not found' } })}`])
+    await expect(collect(streamChatCompletion(config, []))).rejects.toThrow('Local model server error: model not found')
+  })
+
+  it('throws on HTTP errors with the response detail', async () => {
+    reply = (_req, _body, res) => { res.writeHead(404); res.end('no such model') }
+    await expect(collect(streamChatCompletion(config, []))).rejects.toThrow('Local model server returned 404: no such model')
+  })
+
+  it('aborts with the signal', async () => {
+    reply = (_req, _body, res) => {
+      res.writeHead(200, { 'Content-Type': 'text/event-stream' })
+      res.write(`${delta('first')}\n\n`)
+      // Never ends; the client must abort
+    }
+    const controller = new AbortController()
+    const stream = streamChatCompletion(config, [], { signal: controller.signal })
+    await expect(stream.next()).resolves.toEqual({ value: 'first', done: false })
+    controller.abort()
+    await expect(stream.next()).rejects.toMatchObject({ name: 'AbortError' })
+  })
+})
+
+describe('fallback to the local server', () => {
+  // Extension pages fetch directly rather than relaying through the background.
+  // Node's URL reports an opaque origin for chrome-extension:, so fake an http one
+  function asExtensionPage() {
+    vi.stubGlobal('self', { location: { origin: 'http://extension.test' } })
+    vi.stubGlobal('chrome', { runtime: { getURL: (path: string) => `http://extension.test/${path}` } })
+  }
+
+  it('answers prompts when the primary model is unavailable', async () => {
+    asExtensionPage()
+    reply = sse([delta('From '), delta('local'), 'data: [DONE]'])
+    const primary = createMockProvider({ availability: { languageModel: 'unavailable' } })
+    const provider = withFallback(primary, createLocalHttpProvider(config))
+
+    const session = await provider.languageModel!.create({ systemPrompt: 'Be brief.' })
+    await expect(session.prompt('Hi')).resolves.toBe('From local')
+    expect(requests[0].body.messages).toEqual([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: 'Hi' },
+    ])
+  })
+
+  it('keeps using the primary provider while it is available', async () => {
+    asExtensionPage()
+    reply = sse(['data: [DONE]'])
+    const primary = createMockProvider({ prompt: () => 'From primary' })
+    const provider = withFallback(primary, createLocalHttpProvider(config))
+
+    const session = await provider.languageModel!.create()
+    await expect(session.prompt('Hi')).resolves.toBe('From primary')
+    expect(requests).toHaveLength(0)
+  })
+})
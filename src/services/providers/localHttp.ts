@@ -0,0 +1,394 @@
+/**
+ * Local HTTP AI Provider - OpenAI-compatible chat completions server
+ *
+ * Talks to a user-run model server on localhost (Ollama, llama.cpp server,
+ * LM Studio, vLLM...) through its `/v1/chat/completions` endpoint, streaming
+ * tokens via server-sent events. Every AIProvider API is built on that one
+ * endpoint with task-specific system prompts.
+ *
+ * Content scripts run in the page's origin, where a fetch to localhost is
+ * subject to the page's CSP and CORS. They relay requests to the background
+ * worker over a runtime port instead (see handleLocalHttpPort); extension
+ * pages fetch directly.
+ *
+ * Configure with the 'localHttp' setting and select it with 'aiProvider'
+ * set to 'local-http'. The registry wraps it with withFallback(), so it is
+ * only used for APIs Chrome reports as unavailable.
+ *
+ * @example
+ * ```ts
+ * const provider = createLocalHttpProvider({
+ *   endpoint: 'http://localhost:11434',
+ *   model: 'llama3.2',
+ * })
+ * ```
+ */
+
+import { isExtensionContext } from '../../utils/context'
+import type { AIProvider, Availability } from './types'
+
+export type LocalHttpConfig = {
+  endpoint: string          // Server base URL, e.g. http://localhost:11434
+  model: string             // Model name passed in the request body
+  apiKey?: string           // Sent as a Bearer token when set
+  contextTokens?: number    // Context window used as the session inputQuota
+}
+
+export const DEFAULT_LOCAL_HTTP_CONFIG: LocalHttpConfig = {
+  endpoint: 'http://localhost:11434',
+  model: '',
+  contextTokens: 8192,
+}
+
+export type ChatCompletionMessage = { role: 'system' | 'user' | 'assistant'; content: string }
+
+export type ChatCompletionOptions = {
+  temperature?: number
+  signal?: AbortSignal
+}
+
+export const LOCAL_HTTP_PORT = 'local-http'
+
+// Messages exchanged over the LOCAL_HTTP_PORT relay
+type RelayRequest = { messages: ChatCompletionMessage[]; config: LocalHttpConfig; temperature?: number }
+type RelayEvent =
+  | { type: 'chunk'; text: string }
+  | { type: 'done' }
+  | { type: 'error'; message: string }
+
+// LLM language detection has no calibrated score; report a fixed confidence
+// above aiService's low-confidence threshold
+const DETECTION_CONFIDENCE = 0.8
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError')
+}
+
+/**
+ * Build the chat completions URL, accepting base URLs with or without /v1
+ */
+export function completionsUrl(endpoint: string): string {
+  const base = endpoint.trim().replace(/\/+$/, '')
+  return /\/v1$/.test(base) ? `${base}/chat/completions` : `${base}/v1/chat/completions`
+}
+
+/**
+ * Stream a chat completion from an OpenAI-compatible server (fetch + SSE)
+ *
+ * Yields content deltas as they arrive and skips events that are not
+ * JSON objects. Throws on HTTP errors and on `error` payloads, and with an
+ * AbortError when the signal fires.
+ */
+export async function* streamChatCompletion(
+  config: LocalHttpConfig,
+  messages: ChatCompletionMessage[],
+  opts: ChatCompletionOptions = {}
+): AsyncGenerator<string> {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+  if (config.apiKey) headers.Authorization = `Bearer ${config.apiKey}`
+
+  const res = await fetch(completionsUrl(config.endpoint), {
+    method: 'POST',
+    headers,
+    signal: opts.signal,
+    body: JSON.stringify({
+      model: config.model,
+      messages,
+      stream: true,
+      ...(opts.temperature !== undefined && { temperature: opts.temperature }),
+    }),
+  })
+
+  if (!res.ok || !res.body) {
+    const detail = await res.text().catch(() => '')
+    throw new Error(`Local model server returned ${res.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`)
+  }
+
+  const reader = res.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      // SSE events are separated by newlines; keep the trailing partial line
+      // until the stream ends, when it is the last event
+      const lines = buffer.split('\n')
+      buffer = done ? '' : lines.pop() ?? ''
+
+      for (const raw of lines) {
+        const line = raw.trim()
+        if (!line.startsWith('data:')) continue
+        const data = line.slice(5).trim()
+        if (data === '[DONE]') return
+
+        // Skip keep-alive comments and malformed events rather than failing the stream
+        let payload: unknown
+        try {
+          payload = JSON.parse(data)
+        } catch {
+          payload = undefined
+        }
+        if (!payload || typeof payload !== 'object') {
+          console.warn('[LocalHTTP] Skipping malformed SSE event:', data.slice(0, 200))
+          continue
+        }
+        const { error, choices } = payload as { error?: { message?: string }; choices?: { delta?: { content?: unknown } }[] }
+        if (error) {
+          throw new Error(`Local model server error: ${error.message ?? JSON.stringify(error)}`)
+        }
+        const delta = choices?.[0]?.delta?.content
+        if (typeof delta === 'string' && delta) yield delta
+      }
+      if (done) return
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
+
+/**
+ * Stream a chat completion through the background worker
+ * Disconnecting the port (on abort) cancels the request there.
+ */
+async function* streamViaBackground(
+  config: LocalHttpConfig,
+  messages: ChatCompletionMessage[],
+  opts: ChatCompletionOptions = {}
+): AsyncGenerator<string> {
+  if (opts.signal?.aborted) throw abortError()
+
+  const port = chrome.runtime.connect({ name: LOCAL_HTTP_PORT })
+  const queue: RelayEvent[] = []
+  let wake: (() => void) | null = null
+  const push = (event: RelayEvent) => {
+    queue.push(event)
+    wake?.()
+  }
+
+  port.onMessage.addListener(push)
+  port.onDisconnect.addListener(() => push({ type: 'error', message: 'Background worker disconnected' }))
+  const onAbort = () => push({ type: 'error', message: 'aborted' })
+  opts.signal?.addEventListener('abort', onAbort)
+
+  const request: RelayRequest = { messages, config, temperature: opts.temperature }
+  port.postMessage(request)
+
+  try {
+    while (true) {
+      if (queue.length === 0) {
+        await new Promise<void>(resolve => { wake = resolve })
+        wake = null
+        continue
+      }
+      const event = queue.shift()!
+      if (opts.signal?.aborted) throw abortError()
+      if (event.type === 'chunk') yield event.text
+      else if (event.type === 'done') return
+      else throw new Error(event.message)
+    }
+  } finally {
+    opts.signal?.removeEventListener('abort', onAbort)
+    port.disconnect()
+  }
+}
+
+/**
+ * Stream a chat completion using the transport available in this context
+ */
+function streamCompletion(
+  config: LocalHttpConfig,
+  messages: ChatCompletionMessage[],
+  opts?: ChatCompletionOptions
+): AsyncGenerator<string> {
+  return isExtensionContext()
+    ? streamChatCompletion(config, messages, opts)
+    : streamViaBackground(config, messages, opts)
+}
+
+async function complete(
+  config: LocalHttpConfig,
+  messages: ChatCompletionMessage[],
+  opts?: ChatCompletionOptions
+): Promise<string> {
+  let result = ''
+  for await (const chunk of streamCompletion(config, messages, opts)) result += chunk
+  return result
+}
+
+/**
+ * Serve relayed chat completion requests from content scripts
+ * Register in the background worker's runtime.onConnect listener.
+ */
+export function handleLocalHttpPort(port: chrome.runtime.Port) {
+  const controller = new AbortController()
+  port.onDisconnect.addListener(() => controller.abort())
+
+  port.onMessage.addListener(async (request: RelayRequest) => {
+    const send = (event: RelayEvent) => {
+      if (!controller.signal.aborted) port.postMessage(event)
+    }
+    try {
+      const stream = streamChatCompletion(request.config, request.messages, {
+        temperature: request.temperature,
+        signal: controller.signal,
+      })
+      for await (const text of stream) send({ type: 'chunk', text })
+      send({ type: 'done' })
+    } catch (e) {
+      if (controller.signal.aborted) return
+      console.error('[LocalHTTP] Relay failed:', e)
+      send({ type: 'error', message: e instanceof Error ? e.message : String(e) })
+    }
+  })
+}
+
+// ============================================================================
+// Task Prompts
+// ============================================================================
+
+const SUMMARY_STYLES: Record<NonNullable<SummarizerCreateOptions['type']>, string> = {
+  'tldr': 'a short, direct overview',
+  'key-points': 'the most important points as a bulleted list',
+  'teaser': 'an intriguing teaser that makes the reader want to read on',
+  'headline': 'a single headline',
+}
+
+const SUMMARY_LENGTHS: Record<NonNullable<SummarizerCreateOptions['length']>, string> = {
+  short: 'Keep it brief (about 3 bullet points or 1-2 sentences).',
+  medium: 'Use moderate length (about 5 bullet points or a short paragraph).',
+  long: 'Be thorough (about 7 bullet points or a full paragraph).',
+}
+
+function summarizerSystemPrompt(options: SummarizerCreateOptions): string {
+  const type = options.type ?? 'key-points'
+  const lines = [
+    `You summarize text. Write ${SUMMARY_STYLES[type]}.`,
+    SUMMARY_LENGTHS[options.length ?? 'medium'],
+    options.format === 'plain-text' ? 'Use plain text without markdown.' : 'Format the output as markdown.',
+    `Write in the language with code "${options.outputLanguage ?? 'en'}".`,
+    'Output only the summary.',
+  ]
+  if (options.sharedContext) lines.push(`Context: ${options.sharedContext}`)
+  return lines.join('\n')
+}
+
+/**
+ * Rough token estimate used for inputUsage (4 characters per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Create a provider backed by an OpenAI-compatible server
+ */
+export function createLocalHttpProvider(config: LocalHttpConfig): AIProvider {
+  const availability = async (): Promise<Availability> =>
+    config.endpoint.trim() && config.model.trim() ? 'available' : 'unavailable'
+
+  const summarizer: typeof Summarizer = {
+    availability,
+    create: async (options: SummarizerCreateOptions = {}) => {
+      const toMessages = (text: string, context?: string): ChatCompletionMessage[] => [
+        { role: 'system', content: summarizerSystemPrompt(options) },
+        { role: 'user', content: context ? `${context}\n\n${text}` : text },
+      ]
+      return {
+        summarize: (text, opts) => complete(config, toMessages(text, opts?.context), { signal: opts?.signal, temperature: 0.3 }),
+        summarizeStreaming: (text, opts) => streamCompletion(config, toMessages(text, opts?.context), { signal: opts?.signal, temperature: 0.3 }),
+        destroy: () => {},
+      }
+    },
+  }
+
+  const translator: typeof Translator = {
+    availability,
+    create: async ({ sourceLanguage, targetLanguage }: TranslatorCreateOptions) => {
+      const toMessages = (text: string): ChatCompletionMessage[] => [
+        {
+          role: 'system',
+          content: `Translate the user's text from the language with code "${sourceLanguage}" to the language with code "${targetLanguage}". Output only the translation, preserving formatting.`,
+        },
+        { role: 'user', content: text },
+      ]
+      return {
+        translate: (text, opts) => complete(config, toMessages(text), { signal: opts?.signal, temperature: 0 }),
+        translateStreaming: (text, opts) => streamCompletion(config, toMessages(text), { signal: opts?.signal, temperature: 0 }),
+        destroy: () => {},
+      }
+    },
+  }
+
+  const languageDetector: typeof LanguageDetector = {
+    availability,
+    create: async () => ({
+      detect: async (text: string) => {
+        const answer = await complete(config, [
+          {
+            role: 'system',
+            content: 'Identify the language of the user\'s text. Reply with only its ISO 639-1 code (for example: en, ja, es).',
+          },
+          { role: 'user', content: text.slice(0, 2000) },
+        ], { temperature: 0 })
+        const code = answer.trim().toLowerCase().match(/^[a-z]{2,3}(-[a-z0-9]+)?/)?.[0]
+        return code ? [{ detectedLanguage: code, confidence: DETECTION_CONFIDENCE }] : []
+      },
+      destroy: () => {},
+    }),
+  }
+
+  const quota = config.contextTokens ?? DEFAULT_LOCAL_HTTP_CONFIG.contextTokens!
+
+  const createSession = (history: ChatCompletionMessage[], temperature?: number): LanguageModelSession => {
+    let destroyed = false
+    const session: LanguageModelSession = {
+      inputQuota: quota,
+      inputUsage: estimateTokens(history.map(t => t.content).join('\n')),
+      prompt: async (input, opts) => {
+        let result = ''
+        for await (const chunk of session.promptStreaming(input, opts)) result += chunk
+        return result
+      },
+      promptStreaming: (input, opts) => {
+        if (destroyed) throw new DOMException('Session destroyed', 'InvalidStateError')
+        const turn: ChatCompletionMessage = { role: 'user', content: input }
+        return (async function* () {
+          let answer = ''
+          for await (const chunk of streamCompletion(config, [...history, turn], { signal: opts?.signal, temperature })) {
+            answer += chunk
+            yield chunk
+          }
+          // Only completed exchanges become part of the conversation
+          history.push(turn, { role: 'assistant', content: answer })
+          session.inputUsage = Math.min(quota, session.inputUsage + estimateTokens(input) + estimateTokens(answer))
+        })()
+      },
+      clone: async () => createSession([...history], temperature),
+      destroy: () => { destroyed = true },
+    }
+    return session
+  }
+
+  const languageModel: typeof LanguageModel = {
+    availability,
+    params: async () => ({ defaultTopK: 40, maxTopK: 100, defaultTemperature: 0.7, maxTemperature: 2 }),
+    create: async (options: LanguageModelCreateOptions = {}) => {
+      if (options.signal?.aborted) throw abortError()
+      const history: ChatCompletionMessage[] = (options.initialPrompts ?? []).map(({ role, content }) => ({ role, content }))
+      if (options.systemPrompt) history.unshift({ role: 'system', content: options.systemPrompt })
+      return createSession(history, options.temperature)
+    },
+  }
+
+  return {
+    id: 'local-http',
+    label: `Local model server (${config.model || 'no model'} @ ${config.endpoint})`,
+    summarizer,
+    translator,
+    languageDetector,
+    languageModel,
+  }
+}
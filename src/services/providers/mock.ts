@@ -0,0 +1,175 @@
+/**
+ * Mock AI Provider - Deterministic local backend
+ *
+ * Implements every AIProvider API with canned, streamable output so the
+ * tooltip, side panel and chat flows can run on machines without Gemini Nano
+ * (CI, development). Output is a pure function of the input unless a script
+ * overrides it, so runs are reproducible.
+ *
+ * Enable in the extension by setting the 'aiProvider' setting to 'mock'.
+ *
+ * @example
+ * ```ts
+ * setAIProvider(createMockProvider({
+ *   prompt: (input) => `Echo: ${input}`,
+ *   streamChunkSize: 8,
+ * }))
+ * ```
+ */
+
+import type { AIApiName, AIProvider, Availability } from './types'
+
+export type MockChatTurn = { role: 'system' | 'user' | 'assistant'; content: string }
+
+export type MockScript = {
+  /** Availability per API (default: 'available' for all) */
+  availability?: Partial<Record<AIApiName, Availability>>
+  /** Summary for a text (default: first sentences, bulleted for key-points) */
+  summarize?: (text: string, options: SummarizerCreateOptions) => string
+  /** Translation of a text (default: `[source→target] text`) */
+  translate?: (text: string, sourceLanguage: string, targetLanguage: string) => string
+  /** Detection result (default: 'en' with confidence 1) */
+  detect?: (text: string) => LanguageDetectionResult[]
+  /** Answer to a prompt given the session history (default: canned answer quoting the input) */
+  prompt?: (input: string, history: MockChatTurn[]) => string
+  /** Characters per streamed chunk (default 12) */
+  streamChunkSize?: number
+  /** Delay between streamed chunks in ms (default 0) */
+  streamDelayMs?: number
+  /** Simulated context window size for LanguageModel sessions (default 6144) */
+  inputQuota?: number
+}
+
+function abortError(): DOMException {
+  return new DOMException('The operation was aborted.', 'AbortError')
+}
+
+/**
+ * Stream a string in fixed-size chunks, honoring an abort signal
+ */
+async function* streamText(text: string, script: MockScript, signal?: AbortSignal): AsyncGenerator<string> {
+  const size = Math.max(1, script.streamChunkSize ?? 12)
+  for (let i = 0; i < text.length; i += size) {
+    if (signal?.aborted) throw abortError()
+    if (script.streamDelayMs) {
+      await new Promise(resolve => setTimeout(resolve, script.streamDelayMs))
+    }
+    yield text.slice(i, i + size)
+  }
+}
+
+function firstSentences(text: string, count: number): string[] {
+  return text
+    .replace(/\s+/g, ' ')
+    .split(/(?<=[.!?])\s+/)
+    .map(s => s.trim())
+    .filter(Boolean)
+    .slice(0, count)
+}
+
+function defaultSummarize(text: string, options: SummarizerCreateOptions): string {
+  const sentences = firstSentences(text, 3)
+  if (sentences.length === 0) return 'Mock summary: (empty input)'
+  if (options.type === 'key-points') {
+    return sentences.map(s => `- ${s}`).join('\n')
+  }
+  if (options.type === 'headline') {
+    return sentences[0]
+  }
+  return `Mock summary: ${sentences.join(' ')}`
+}
+
+function defaultPrompt(input: string): string {
+  const quoted = input.replace(/\s+/g, ' ').trim().slice(0, 120)
+  return `Mock answer to "${quoted}". This response comes from the local mock provider.`
+}
+
+/**
+ * Rough token estimate used for inputUsage (4 characters per token)
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4)
+}
+
+/**
+ * Create a mock provider, optionally scripted
+ */
+export function createMockProvider(script: MockScript = {}): AIProvider {
+  const availabilityOf = (api: AIApiName): Availability => script.availability?.[api] ?? 'available'
+
+  const summarizer: typeof Summarizer = {
+    availability: async () => availabilityOf('summarizer'),
+    create: async (options: SummarizerCreateOptions = {}) => {
+      const summarize = (text: string) => (script.summarize ?? defaultSummarize)(text, options)
+      return {
+        summarize: async (text: string) => summarize(text),
+        summarizeStreaming: (text: string, opts?: { signal?: AbortSignal }) => streamText(summarize(text), script, opts?.signal),
+        destroy: () => {},
+      }
+    },
+  }
+
+  const translator: typeof Translator = {
+    availability: async () => availabilityOf('translator'),
+    create: async ({ sourceLanguage, targetLanguage }: TranslatorCreateOptions) => {
+      const translate = (text: string) =>
+        script.translate?.(text, sourceLanguage, targetLanguage) ?? `[${sourceLanguage}→${targetLanguage}] ${text}`
+      return {
+        translate: async (text: string) => translate(text),
+        translateStreaming: (text: string, opts?: { signal?: AbortSignal }) => streamText(translate(text), script, opts?.signal),
+        destroy: () => {},
+      }
+    },
+  }
+
+  const languageDetector: typeof LanguageDetector = {
+    availability: async () => availabilityOf('languageDetector'),
+    create: async () => ({
+      detect: async (text: string) => script.detect?.(text) ?? [{ detectedLanguage: 'en', confidence: 1 }],
+      destroy: () => {},
+    }),
+  }
+
+  const createSession = (history: MockChatTurn[], quota: number): LanguageModelSession => {
+    let destroyed = false
+    const session: LanguageModelSession = {
+      inputQuota: quota,
+      inputUsage: estimateTokens(history.map(t => t.content).join('\n')),
+      prompt: async (input, opts) => {
+        let result = ''
+        for await (const chunk of session.promptStreaming(input, opts)) result += chunk
+        return result
+      },
+      promptStreaming: (input, opts) => {
+        if (destroyed) throw new DOMException('Session destroyed', 'InvalidStateError')
+        const answer = (script.prompt ?? defaultPrompt)(input, [...history])
+        history.push({ role: 'user', content: input }, { role: 'assistant', content: answer })
+        session.inputUsage = Math.min(quota, session.inputUsage + estimateTokens(input) + estimateTokens(answer))
+        return streamText(answer, script, opts?.signal)
+      },
+      clone: async () => createSession([...history], quota),
+      destroy: () => { destroyed = true },
+    }
+    return session
+  }
+
+  const languageModel: typeof LanguageModel = {
+    availability: async () => availabilityOf('languageModel'),
+    params: async () => ({ defaultTopK: 3, maxTopK: 8, defaultTemperature: 1, maxTemperature: 2 }),
+    create: async (options: LanguageModelCreateOptions = {}) => {
+      if (options.signal?.aborted) throw abortError()
+      const history: MockChatTurn[] = [...(options.initialPrompts ?? [])]
+      if (options.systemPrompt) history.unshift({ role: 'system', content: options.systemPrompt })
+      return createSession(history, script.inputQuota ?? 6144)
+    },
+  }
+
+  return {
+    id: 'mock',
+    label: 'Mock provider (deterministic, for testing)',
+    summarizer,
+    translator,
+    languageDetector,
+    languageModel,
+  }
+}
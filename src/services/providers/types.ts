@@ -0,0 +1,44 @@
+/**
+ * AI Provider Interface
+ *
+ * An AIProvider supplies the four model APIs that aiService.ts builds on.
+ * Each API mirrors the shape of Chrome's built-in globals (Summarizer,
+ * Translator, LanguageDetector, LanguageModel), so aiService keeps one code
+ * path for caching, streaming and fallbacks regardless of the backend.
+ *
+ * An API that a provider does not support is left undefined, which aiService
+ * treats the same as Chrome reporting the API as missing.
+ */
+
+export type Availability = 'unavailable' | 'downloadable' | 'downloading' | 'available'
+
+export type SummarizerAPI = typeof Summarizer
+export type TranslatorAPI = typeof Translator
+export type LanguageDetectorAPI = typeof LanguageDetector
+export type LanguageModelAPI = typeof LanguageModel
+
+/**
+ * User-facing capabilities and the API each one runs on
+ */
+export type AICapability = 'summarize' | 'explain' | 'translate' | 'detect' | 'chat'
+
+export type AIApiName = 'summarizer' | 'translator' | 'languageDetector' | 'languageModel'
+
+export const CAPABILITY_API: Record<AICapability, AIApiName> = {
+  summarize: 'summarizer',
+  explain: 'languageModel',
+  translate: 'translator',
+  detect: 'languageDetector',
+  chat: 'languageModel',
+}
+
+export type ProviderId = 'chrome' | 'mock' | 'local-http'
+
+export interface AIProvider {
+  readonly id: ProviderId
+  readonly label: string
+  readonly summarizer?: SummarizerAPI
+  readonly translator?: TranslatorAPI
+  readonly languageDetector?: LanguageDetectorAPI
+  readonly languageModel?: LanguageModelAPI
+}
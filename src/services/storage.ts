@@ -1,5 +1,5 @@
 /**
- * Storage Service - Chrome Storage API Wrapper
+ * Storage Service - Typed, promise-based persistence for extension data
  * 
  * Provides a typed, promise-based interface for managing extension data:
  * - Notes: AI-generated summaries, explanations, translations
@@ -7,16 +7,25 @@
  * - Page Summaries: Cached full-page summaries (URL-keyed)
  * - Chat History: Multi-turn conversation history (URL-keyed)
  * 
- * All data is stored in chrome.storage.local for persistence across sessions.
+ * Notes, page summaries and chat history live in IndexedDB (see db.ts), so
+ * each write touches a single record instead of rewriting a whole object.
+ * IndexedDB is per-origin, and content scripts run in the web page's origin,
+ * so calls made from a content script are forwarded to the background worker
+ * and executed there. Settings are small and stay in chrome.storage.local.
+ * 
+ * Page summaries and chat history are bounded caches (see cacheManager.ts).
  */
 
 import type { Note } from '../utils/messaging'
+import { getDB, type PageChatHistoryRecord } from './db'
+import { isExtensionContext } from '../utils/context'
+import { enforceCacheBudget, withSize } from './cacheManager'
 
 // Storage keys
-const NOTES_KEY = 'notes'
 const SETTINGS_KEY = 'settings'
-const PAGE_SUMMARIES_KEY = 'pageSummaries'
-const PAGE_CHAT_HISTORY_KEY = 'pageChatHistory'
+
+// BroadcastChannel used to tell extension pages that stored data changed
+const CHANGES_CHANNEL = 'ai-companion-storage'
 
 /**
  * Generate SHA-256 hash of text
@@ -52,27 +61,100 @@ function setLocal(obj: Record<string, any>): Promise<void> {
 
 /**
  * Add a new note to storage
- * Notes are prepended (newest first)
  */
-export async function addNote(n: Note) {
-  const list = (await getLocal<Note[]>(NOTES_KEY)) || []
-  list.unshift(n)  // Add to beginning
-  await setLocal({ [NOTES_KEY]: list })
+export function addNote(n: Note): Promise<void> {
+  return call('addNote', n)
+}
+
+/**
+ * Sort notes for display: pinned first, then by creation date (newest first)
+ */
+export function sortNotes(list: Note[]): Note[] {
+  return list.sort((a, b) =>
+    Number(!!b.pinned) - Number(!!a.pinned) || (b.createdAt || 0) - (a.createdAt || 0)
+  )
+}
+
+/**
+ * Get all notes, pinned first, then sorted by creation date (newest first)
+ */
+export function listNotes(): Promise<Note[]> {
+  return call('listNotes')
+}
+
+/**
+ * Get the notes saved from a page, newest first
+ */
+export function listNotesByUrl(url: string): Promise<Note[]> {
+  return call('listNotesByUrl', url)
+}
+
+/**
+ * Get the notes of one kind, newest first
+ */
+export function listNotesByKind(kind: Note['kind']): Promise<Note[]> {
+  return call('listNotesByKind', kind)
+}
+
+/**
+ * Update fields of a single note
+ * 
+ * @returns The updated note, or undefined if no note has this id
+ */
+export function updateNote(id: string, patch: Partial<Omit<Note, 'id' | 'createdAt'>>): Promise<Note | undefined> {
+  return call('updateNote', id, patch)
+}
+
+/**
+ * Delete a single note
+ */
+export function deleteNote(id: string): Promise<void> {
+  return call('deleteNote', id)
+}
+
+/**
+ * Pin or unpin a note
+ */
+export function pinNote(id: string, pinned = true): Promise<Note | undefined> {
+  return updateNote(id, { pinned })
+}
+
+/**
+ * Replace the tags of a note
+ */
+export function setNoteTags(id: string, tags: string[]): Promise<Note | undefined> {
+  return updateNote(id, { tags })
 }
 
 /**
- * Get all notes, sorted by creation date (newest first)
+ * Get every tag in use, sorted alphabetically
  */
-export async function listNotes(): Promise<Note[]> {
-  const list = (await getLocal<Note[]>(NOTES_KEY)) || []
-  return list.sort((a, b) => (b.createdAt || 0) - (a.createdAt || 0))
+export function listTags(): Promise<string[]> {
+  return call('listTags')
+}
+
+/**
+ * Normalize user-entered tags
+ * - Strip a leading '#' and surrounding whitespace
+ * - Drop empties and duplicates (case-insensitive, first spelling wins)
+ */
+export function normalizeTags(tags: string[]): string[] {
+  const seen = new Set<string>()
+  const result: string[] = []
+  for (const raw of tags) {
+    const tag = raw.trim().replace(/^#+/, '').trim()
+    if (!tag || seen.has(tag.toLowerCase())) continue
+    seen.add(tag.toLowerCase())
+    result.push(tag)
+  }
+  return result
 }
 
 /**
  * Delete all notes
  */
-export async function clearNotes() {
-  await setLocal({ [NOTES_KEY]: [] })
+export function clearNotes(): Promise<void> {
+  return call('clearNotes')
 }
 
 // ============================================================================
@@ -99,6 +181,23 @@ export async function getSetting<T = any>(key: string): Promise<T | undefined> {
   return st[key] as T | undefined
 }
 
+/**
+ * Subscribe to changes of the given settings, from any context
+ *
+ * @returns Unsubscribe function
+ */
+export function onSettingsChanged(keys: string[], listener: () => void): () => void {
+  const handler = (changes: Record<string, chrome.storage.StorageChange>, areaName: string) => {
+    const change = changes[SETTINGS_KEY]
+    if (areaName !== 'local' || !change) return
+    const before: Settings = change.oldValue || {}
+    const after: Settings = change.newValue || {}
+    if (keys.some(k => JSON.stringify(before[k]) !== JSON.stringify(after[k]))) listener()
+  }
+  chrome.storage.onChanged.addListener(handler)
+  return () => chrome.storage.onChanged.removeListener(handler)
+}
+
 // ============================================================================
 // Page Summary Cache API
 // ============================================================================
@@ -107,47 +206,38 @@ export type PageSummaryCache = {
   summary: string        // The generated summary
   text: string           // The original page text
   contentHash: string    // Hash of page content (for detecting changes)
-  timestamp: number      // When the summary was created
+  timestamp: number      // When the summary was created (LRU key for eviction)
   isSaved?: boolean      // Whether saved to notes
 }
 
 /**
  * Get cached page summary for a URL
  */
-export async function getPageSummary(url: string): Promise<PageSummaryCache | undefined> {
-  const cache = (await getLocal<Record<string, PageSummaryCache>>(PAGE_SUMMARIES_KEY)) || {}
-  return cache[url]
+export function getPageSummary(url: string): Promise<PageSummaryCache | undefined> {
+  return call('getPageSummary', url)
 }
 
 /**
  * Cache a page summary
  * Automatically computes content hash for change detection
  */
-export async function setPageSummary(url: string, summary: string, text: string) {
-  const cache = (await getLocal<Record<string, PageSummaryCache>>(PAGE_SUMMARIES_KEY)) || {}
+export async function setPageSummary(url: string, summary: string, text: string): Promise<void> {
   const contentHash = await hashText(text)
-  cache[url] = { summary, text, contentHash, timestamp: Date.now(), isSaved: false }
-  await setLocal({ [PAGE_SUMMARIES_KEY]: cache })
+  await call('putPageSummary', url, { summary, text, contentHash, timestamp: Date.now(), isSaved: false })
 }
 
 /**
  * Update whether the page summary has been saved to notes
  */
-export async function updatePageSummarySaveStatus(url: string, isSaved: boolean) {
-  const cache = (await getLocal<Record<string, PageSummaryCache>>(PAGE_SUMMARIES_KEY)) || {}
-  if (cache[url]) {
-    cache[url].isSaved = isSaved
-    await setLocal({ [PAGE_SUMMARIES_KEY]: cache })
-  }
+export function updatePageSummarySaveStatus(url: string, isSaved: boolean): Promise<void> {
+  return call('updatePageSummarySaveStatus', url, isSaved)
 }
 
 /**
  * Clear cached page summary for a URL
  */
-export async function clearPageSummary(url: string) {
-  const cache = (await getLocal<Record<string, PageSummaryCache>>(PAGE_SUMMARIES_KEY)) || {}
-  delete cache[url]
-  await setLocal({ [PAGE_SUMMARIES_KEY]: cache })
+export function clearPageSummary(url: string): Promise<void> {
+  return call('clearPageSummary', url)
 }
 
 // ============================================================================
@@ -158,12 +248,28 @@ export type ChatMessage = {
   role: 'user' | 'assistant'
   content: string
   timestamp: number
+  compacted?: boolean        // Folded into the digest; shown, but no longer in the chat session
+  versions?: ChatMessageVersion[]  // Edited questions or regenerated answers, oldest first
+  version?: number           // Index of the shown version in `versions`
+}
+
+/**
+ * One version of a chat message and the conversation that followed it
+ * The shown version's follow-ups are the messages after it in the history,
+ * so its `followUps` stays empty until another version is shown.
+ */
+export type ChatMessageVersion = {
+  content: string
+  timestamp: number
+  followUps: ChatMessage[]
 }
 
 export type PageChatHistory = {
   messages: ChatMessage[]    // Conversation history
   contentHash: string        // Hash of page content (for validation)
   pageSummary: string        // Initial page summary (context for chat)
+  digest?: string            // Condensed compacted messages (see aiService ChatCompaction)
+  pageTitle?: string         // Page title when the chat was last saved
   timestamp: number          // Last update time
 }
 
@@ -171,27 +277,252 @@ export type PageChatHistory = {
  * Get chat history for a URL
  * Returns undefined if no history exists or page content has changed
  */
-export async function getPageChatHistory(url: string): Promise<PageChatHistory | undefined> {
-  const cache = (await getLocal<Record<string, PageChatHistory>>(PAGE_CHAT_HISTORY_KEY)) || {}
-  return cache[url]
+export function getPageChatHistory(url: string): Promise<PageChatHistory | undefined> {
+  return call('getPageChatHistory', url)
 }
 
 /**
  * Save chat history for a URL
  * Should be called after each chat turn to persist conversation
  */
-export async function setPageChatHistory(url: string, history: Omit<PageChatHistory, 'timestamp'>) {
-  const cache = (await getLocal<Record<string, PageChatHistory>>(PAGE_CHAT_HISTORY_KEY)) || {}
-  cache[url] = { ...history, timestamp: Date.now() }
-  await setLocal({ [PAGE_CHAT_HISTORY_KEY]: cache })
+export function setPageChatHistory(url: string, history: Omit<PageChatHistory, 'timestamp'>): Promise<void> {
+  return call('putPageChatHistory', url, { ...history, timestamp: Date.now() })
+}
+
+/**
+ * Get every stored page chat, most recently active first
+ */
+export function listPageChats(): Promise<PageChatHistoryRecord[]> {
+  return call('listPageChats')
 }
 
 /**
  * Clear chat history for a URL
  * Called when page content changes or user explicitly refreshes
  */
-export async function clearPageChatHistory(url: string) {
-  const cache = (await getLocal<Record<string, PageChatHistory>>(PAGE_CHAT_HISTORY_KEY)) || {}
-  delete cache[url]
-  await setLocal({ [PAGE_CHAT_HISTORY_KEY]: cache })
+export function clearPageChatHistory(url: string): Promise<void> {
+  return call('clearPageChatHistory', url)
+}
+
+// ============================================================================
+// Change Notifications
+// ============================================================================
+
+export type StorageArea = 'notes' | 'pageSummaries' | 'pageChatHistory'
+
+let changesChannel: BroadcastChannel | null = null
+
+/**
+ * Tell extension pages that stored data changed (see onStorageChanged)
+ */
+export function notifyChanged(area: StorageArea) {
+  changesChannel ??= new BroadcastChannel(CHANGES_CHANNEL)
+  changesChannel.postMessage({ area })
+}
+
+/**
+ * Subscribe to changes of IndexedDB-backed data (extension pages only)
+ * Fires for writes made in any extension context, including writes
+ * forwarded from content scripts.
+ * 
+ * @returns Unsubscribe function
+ */
+export function onStorageChanged(listener: (area: StorageArea) => void): () => void {
+  const channel = new BroadcastChannel(CHANGES_CHANNEL)
+  channel.onmessage = (e: MessageEvent<{ area: StorageArea }>) => listener(e.data.area)
+  return () => channel.close()
+}
+
+// ============================================================================
+// IndexedDB Implementations (extension origin only)
+// ============================================================================
+
+const local = {
+  async addNote(n: Note) {
+    const db = await getDB()
+    await db.put('notes', n)
+    notifyChanged('notes')
+  },
+
+  async listNotes(): Promise<Note[]> {
+    const db = await getDB()
+    return sortNotes(await db.getAll('notes'))
+  },
+
+  async listNotesByUrl(url: string): Promise<Note[]> {
+    const db = await getDB()
+    return sortNotes(await db.getAllFromIndex('notes', 'by-url', url))
+  },
+
+  async listNotesByKind(kind: Note['kind']): Promise<Note[]> {
+    const db = await getDB()
+    return sortNotes(await db.getAllFromIndex('notes', 'by-kind', kind))
+  },
+
+  async updateNote(id: string, patch: Partial<Omit<Note, 'id' | 'createdAt'>>): Promise<Note | undefined> {
+    const db = await getDB()
+    const tx = db.transaction('notes', 'readwrite')
+    const existing = await tx.store.get(id)
+    if (!existing) {
+      await tx.done
+      return undefined
+    }
+    const updated: Note = { ...existing, ...patch, updatedAt: Date.now() }
+    if (patch.tags) updated.tags = normalizeTags(patch.tags)
+    await Promise.all([tx.store.put(updated), tx.done])
+    notifyChanged('notes')
+    return updated
+  },
+
+  async deleteNote(id: string) {
+    const db = await getDB()
+    await db.delete('notes', id)
+    notifyChanged('notes')
+  },
+
+  async listTags(): Promise<string[]> {
+    const db = await getDB()
+    const notes = await db.getAll('notes')
+    const tags = new Set(notes.flatMap(n => n.tags || []))
+    return [...tags].sort((a, b) => a.localeCompare(b))
+  },
+
+  async clearNotes() {
+    const db = await getDB()
+    await db.clear('notes')
+    notifyChanged('notes')
+  },
+
+  async getPageSummary(url: string): Promise<PageSummaryCache | undefined> {
+    const db = await getDB()
+    const record = await db.get('pageSummaries', url)
+    if (!record) return undefined
+    const entry: PageSummaryCache & { url?: string; bytes?: number } = record
+    delete entry.url
+    delete entry.bytes
+    return entry
+  },
+
+  async putPageSummary(url: string, entry: PageSummaryCache) {
+    const db = await getDB()
+    await db.put('pageSummaries', withSize({ ...entry, url }))
+    notifyChanged('pageSummaries')
+    enforceCacheBudget('pageSummaries').catch(e => console.warn('[Cache] Eviction failed:', e))
+  },
+
+  async updatePageSummarySaveStatus(url: string, isSaved: boolean) {
+    const db = await getDB()
+    const tx = db.transaction('pageSummaries', 'readwrite')
+    const record = await tx.store.get(url)
+    if (record) {
+      record.isSaved = isSaved
+      await tx.store.put(record)
+    }
+    await tx.done
+    if (record) notifyChanged('pageSummaries')
+  },
+
+  async clearPageSummary(url: string) {
+    const db = await getDB()
+    await db.delete('pageSummaries', url)
+    notifyChanged('pageSummaries')
+  },
+
+  async getPageChatHistory(url: string): Promise<PageChatHistory | undefined> {
+    const db = await getDB()
+    const record = await db.get('pageChatHistory', url)
+    if (!record) return undefined
+    const history: PageChatHistory & { url?: string; bytes?: number } = record
+    delete history.url
+    delete history.bytes
+    return history
+  },
+
+  async putPageChatHistory(url: string, history: PageChatHistory) {
+    const db = await getDB()
+    await db.put('pageChatHistory', withSize({ ...history, url }))
+    notifyChanged('pageChatHistory')
+    enforceCacheBudget('pageChatHistory').catch(e => console.warn('[Cache] Eviction failed:', e))
+  },
+
+  async listPageChats(): Promise<PageChatHistoryRecord[]> {
+    const db = await getDB()
+    return (await db.getAllFromIndex('pageChatHistory', 'by-timestamp')).reverse()
+  },
+
+  async clearPageChatHistory(url: string) {
+    const db = await getDB()
+    await db.delete('pageChatHistory', url)
+    notifyChanged('pageChatHistory')
+  },
+}
+
+// ============================================================================
+// Cross-Context Calls
+// ============================================================================
+
+type StorageOps = typeof local
+type StorageOp = keyof StorageOps
+type StorageResult<K extends StorageOp> = Awaited<ReturnType<StorageOps[K]>>
+
+/**
+ * Message sent by content scripts to run a storage operation in the background
+ */
+export type StorageRequest = {
+  [K in StorageOp]: { type: 'STORAGE_CALL'; op: K; args: Parameters<StorageOps[K]> }
+}[StorageOp]
+
+export type StorageReply = { ok: true; data: unknown } | { ok: false; error: string }
+
+function runLocal<K extends StorageOp>(op: K, args: Parameters<StorageOps[K]>): Promise<StorageResult<K>> {
+  const fn = local[op] as (...a: Parameters<StorageOps[K]>) => Promise<StorageResult<K>>
+  return fn(...args)
+}
+
+/**
+ * Run a storage operation locally or, from a content script, in the background
+ */
+function call<K extends StorageOp>(op: K, ...args: Parameters<StorageOps[K]>): Promise<StorageResult<K>> {
+  if (isExtensionContext()) {
+    return runLocal(op, args)
+  }
+
+  return new Promise((resolve, reject) => {
+    const req = { type: 'STORAGE_CALL', op, args } as StorageRequest
+    chrome.runtime.sendMessage(req, (reply: StorageReply | undefined) => {
+      const err = chrome.runtime.lastError
+      if (err) {
+        reject(new Error(`Storage ${op} failed: ${err.message}`))
+      } else if (!reply) {
+        reject(new Error(`Storage ${op} failed: no reply from background`))
+      } else if (!reply.ok) {
+        reject(new Error(`Storage ${op} failed: ${reply.error}`))
+      } else {
+        resolve(reply.data as StorageResult<K>)
+      }
+    })
+  })
+}
+
+/**
+ * Runtime guard for storage requests arriving over chrome.runtime
+ */
+export function isStorageRequest(msg: unknown): msg is StorageRequest {
+  if (!msg || typeof msg !== 'object') return false
+  const req = msg as { type?: unknown; op?: unknown; args?: unknown }
+  return req.type === 'STORAGE_CALL' && typeof req.op === 'string' && Object.hasOwn(local, req.op) && Array.isArray(req.args)
+}
+
+/**
+ * Execute a storage request forwarded from a content script
+ * Used by the background worker's message listener.
+ */
+export async function handleStorageRequest(req: StorageRequest): Promise<StorageReply> {
+  try {
+    const data = await runLocal(req.op, req.args as never)
+    return { ok: true, data }
+  } catch (e) {
+    console.error(`[Storage] ${req.op} failed:`, e)
+    return { ok: false, error: e instanceof Error ? e.message : String(e) }
+  }
 }
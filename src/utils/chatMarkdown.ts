@@ -0,0 +1,49 @@
+/**
+ * Chat Markdown - Plain-text export of page chat conversations
+ *
+ * Used by the popup's Conversations tab to download a chat as a `.md` file,
+ * and as the text of chat notes. Only the shown version of each message is
+ * exported.
+ */
+
+import type { ChatMessage } from '../services/storage'
+import type { NoteTurn } from './messaging'
+
+export type ChatTranscript = {
+  title: string
+  url: string
+  timestamp: number        // Last activity
+  messages: ChatMessage[]
+}
+
+const SPEAKERS: Record<ChatMessage['role'], string> = {
+  user: 'You',
+  assistant: 'Assistant',
+}
+
+/**
+ * Render the messages as alternating "**You:**" / "**Assistant:**" blocks
+ */
+export function messagesToMarkdown(messages: NoteTurn[]): string {
+  return messages.map(m => `**${SPEAKERS[m.role]}:**\n\n${m.content.trim()}`).join('\n\n---\n\n')
+}
+
+/**
+ * Render a conversation as a Markdown document headed by its page
+ */
+export function chatToMarkdown(chat: ChatTranscript): string {
+  return [
+    `# ${chat.title}`,
+    `<${chat.url}>`,
+    `_Last activity: ${new Date(chat.timestamp).toLocaleString()} · ${chat.messages.length} messages_`,
+    messagesToMarkdown(chat.messages),
+  ].join('\n\n') + '\n'
+}
+
+/**
+ * File name for an exported chat, derived from its title
+ */
+export function chatFileName(chat: ChatTranscript): string {
+  const slug = chat.title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, '-').replace(/^-+|-+$/g, '').slice(0, 60)
+  return `${slug || 'chat'}.md`
+}
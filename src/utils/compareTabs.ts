@@ -0,0 +1,29 @@
+/**
+ * Compare Tabs - Popup request to start a "compare pages" chat
+ *
+ * The popup sends the chosen tabs to the background, which reads each tab's
+ * content (GET_PAGE_CONTENT) and opens the chat in the host tab's side panel
+ * (OPEN_COMPARE_CHAT). The popup may close meanwhile; the reply only reports
+ * whether the chat was opened.
+ */
+
+export const COMPARE_TABS_REQUEST = 'COMPARE_TABS'
+
+// Runtime message, popup → background
+export type CompareTabsRequest = {
+  type: typeof COMPARE_TABS_REQUEST
+  tabIds: number[]        // Tabs to compare, in label order (Tab 1, Tab 2, ...)
+  hostTabId: number       // Tab whose side panel hosts the chat
+}
+
+export type CompareTabsReply = { ok: true; sources: number } | { ok: false; error: string }
+
+// Fewest and most tabs in one comparison (the sources share one context window)
+export const MIN_COMPARE_TABS = 2
+export const MAX_COMPARE_TABS = 4
+
+export function isCompareTabsRequest(x: unknown): x is CompareTabsRequest {
+  return !!x && typeof x === 'object' && (x as { type?: unknown }).type === COMPARE_TABS_REQUEST
+    && Array.isArray((x as { tabIds?: unknown }).tabIds)
+    && typeof (x as { hostTabId?: unknown }).hostTabId === 'number'
+}
@@ -0,0 +1,15 @@
+/**
+ * Execution Context Helpers
+ */
+
+/**
+ * Whether this code runs in the extension's own origin (popup, background)
+ * rather than inside a web page (content script)
+ */
+export function isExtensionContext(): boolean {
+  try {
+    return self.location.origin === new URL(chrome.runtime.getURL('')).origin
+  } catch {
+    return false
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Model Download Progress - Shared formatting and relay message
+ *
+ * The AI service runs in the content script, so its download events are
+ * relayed to extension pages (popup) with a runtime message.
+ */
+
+import type { ModelDownloadEvent } from '../services/aiService'
+import type { AIApiName } from '../services/providers/types'
+
+export const MODEL_DOWNLOAD_MESSAGE = 'MODEL_DOWNLOAD_PROGRESS'
+
+export type ModelDownloadMessage = {
+  type: typeof MODEL_DOWNLOAD_MESSAGE
+  event: ModelDownloadEvent
+}
+
+export function isModelDownloadMessage(x: unknown): x is ModelDownloadMessage {
+  return !!x && typeof x === 'object' && (x as { type?: unknown }).type === MODEL_DOWNLOAD_MESSAGE
+}
+
+const MODEL_LABELS: Record<AIApiName, string> = {
+  summarizer: 'Summarizer model',
+  translator: 'Translation model',
+  languageDetector: 'Language detection model',
+  languageModel: 'Gemini Nano model',
+}
+
+/**
+ * Human-readable name of the model being downloaded (e.g. "Translation model (en → ja)")
+ */
+export function describeDownload(event: ModelDownloadEvent): string {
+  const label = MODEL_LABELS[event.model]
+  return event.languages ? `${label} (${event.languages.source} → ${event.languages.target})` : label
+}
+
+/**
+ * Format a remaining time estimate (e.g. "about 3 min left")
+ */
+export function formatEta(ms?: number): string {
+  if (ms === undefined) return 'estimating time left…'
+  const seconds = Math.round(ms / 1000)
+  if (seconds < 60) return `about ${Math.max(1, seconds)} s left`
+  const minutes = Math.round(seconds / 60)
+  if (minutes < 60) return `about ${minutes} min left`
+  return `about ${Math.floor(minutes / 60)} h ${minutes % 60} min left`
+}
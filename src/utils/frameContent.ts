@@ -0,0 +1,36 @@
+/**
+ * Frame Content - Messages for reading child frames during page extraction
+ *
+ * A frame asks a child frame for its content with a window message carrying
+ * a random id. The child answers with a runtime message that the background
+ * broadcasts to the tab's content scripts, and the requester picks its answer
+ * by id. The answer never travels through window.postMessage, so a page that
+ * embeds a cross-origin frame cannot read that frame's content this way.
+ */
+
+import type { ExtractedDocument } from '../services/domExtract'
+
+export const FRAME_CONTENT_REQUEST = 'AI_COMPANION_FRAME_CONTENT_REQUEST'
+export const FRAME_CONTENT_RESULT = 'FRAME_CONTENT_RESULT'
+
+// Window message, parent → child frame
+export type FrameContentRequest = {
+  type: typeof FRAME_CONTENT_REQUEST
+  id: string
+}
+
+// Runtime message, child frame → background → every frame of the tab
+export type FrameContentMessage = {
+  type: typeof FRAME_CONTENT_RESULT
+  id: string
+  content: ExtractedDocument
+}
+
+export function isFrameContentRequest(x: unknown): x is FrameContentRequest {
+  return !!x && typeof x === 'object' && (x as { type?: unknown }).type === FRAME_CONTENT_REQUEST
+    && typeof (x as { id?: unknown }).id === 'string'
+}
+
+export function isFrameContentMessage(x: unknown): x is FrameContentMessage {
+  return !!x && typeof x === 'object' && (x as { type?: unknown }).type === FRAME_CONTENT_RESULT
+}
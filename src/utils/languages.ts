@@ -0,0 +1,39 @@
+/**
+ * Language Lists and Names
+ *
+ * TARGET_LANGUAGES are the languages Chrome's Translator API can translate
+ * into. DIRECT_OUTPUT_LANGUAGES are the ones the Summarizer and
+ * LanguageModel can write themselves; other targets go through English and
+ * translate() (see aiService.ts).
+ *
+ * @see https://developer.chrome.com/docs/ai/translator-api#supported-languages
+ */
+
+export const TARGET_LANGUAGES = [
+  'ar', 'bg', 'bn', 'cs', 'da', 'de', 'el', 'en', 'es', 'fi', 'fr', 'hi', 'hr',
+  'hu', 'id', 'it', 'iw', 'ja', 'kn', 'ko', 'lt', 'mr', 'nl', 'no', 'pl', 'pt',
+  'ro', 'ru', 'sk', 'sl', 'sv', 'ta', 'te', 'th', 'tr', 'uk', 'vi', 'zh', 'zh-Hant',
+]
+
+export const DIRECT_OUTPUT_LANGUAGES = ['en', 'es', 'ja']
+
+/**
+ * Whether the Summarizer and LanguageModel can write this language directly
+ */
+export function isDirectOutputLanguage(lang: string): boolean {
+  return DIRECT_OUTPUT_LANGUAGES.includes(lang.split('-')[0].toLowerCase())
+}
+
+/**
+ * Name of a language, in English by default (e.g. "French")
+ *
+ * @param displayLang - Language to write the name in; pass `code` itself for
+ *   the native name (e.g. "français")
+ */
+export function languageName(code: string, displayLang = 'en'): string {
+  try {
+    return new Intl.DisplayNames([displayLang], { type: 'language' }).of(code) || code
+  } catch {
+    return code
+  }
+}
@@ -1,4 +1,12 @@
-export type NoteKind = 'summary' | 'explain' | 'translation' | 'note'
+export type NoteKind = 'summary' | 'explain' | 'translation' | 'note' | 'chat'
+
+/**
+ * One message of a saved chat conversation
+ */
+export type NoteTurn = {
+  role: 'user' | 'assistant'
+  content: string
+}
 
 export type Note = {
   id: string
@@ -8,13 +16,115 @@ export type Note = {
   text: string
   snippet?: string
   createdAt: number
+  updatedAt?: number     // Last edit (text, tags or pin state)
   lang?: string
+  tags?: string[]
+  pinned?: boolean       // Pinned notes are listed first
+  pageRange?: { from: number; to: number }  // PDF pages the note comes from
+  turns?: NoteTurn[]     // Chat notes: the conversation, oldest first (`text` holds it as Markdown)
+  pageSummary?: string   // Chat notes: the summary the conversation started from
+}
+
+/**
+ * One tab's content in a "compare pages" chat
+ * `label` ("Tab 1", "Tab 2", ...) is how answers cite the source.
+ */
+export type CompareSource = {
+  tabId: number
+  label: string
+  title: string
+  url: string
+  text: string
+  summary?: string       // Cached page summary, when the tab has one
 }
 
 export type Msg =
   | { type: 'PING' }
   | { type: 'SUMMARIZE_PAGE' }
-  | { type: 'SUMMARIZE_SELECTION' }
-  | { type: 'EXPLAIN_SELECTION' }
-  | { type: 'TRANSLATE_SELECTION'; targetLang: string }
+  | { type: 'SUMMARIZE_SELECTION'; text?: string }      // text: selection reported by the context menu,
+  | { type: 'EXPLAIN_SELECTION'; text?: string }        // used when the frame cannot read it (PDF viewer)
+  | { type: 'TRANSLATE_SELECTION'; targetLang: string; text?: string }
+  | { type: 'TRANSLATE_PAGE'; targetLang: string }
+  | { type: 'GET_PAGE_CONTENT' }
+  | { type: 'OPEN_COMPARE_CHAT'; sources: CompareSource[] }
+  | { type: 'RESUME_PAGE_CHAT' }
   | { type: 'TOGGLE_PANEL' }
+  | { type: 'SHOW_FLOAT_AGAIN' }
+
+export type MsgType = Msg['type']
+
+export type MsgOf<T extends MsgType> = Extract<Msg, { type: T }>
+
+/**
+ * Payload returned by the content script for each message type
+ */
+export type MsgResponseMap = {
+  PING: { url: string }
+  SUMMARIZE_PAGE: { summary: string }
+  SUMMARIZE_SELECTION: { result: string }
+  EXPLAIN_SELECTION: { result: string }
+  TRANSLATE_SELECTION: { result: string }
+  TRANSLATE_PAGE: { blocks: number }     // Blocks queued; translation continues in the page
+  GET_PAGE_CONTENT: { title: string; url: string; text: string; summary?: string }
+  OPEN_COMPARE_CHAT: { sources: number } // Panel opened; the chat session is created in the page
+  RESUME_PAGE_CHAT: { messages: number } // Messages restored; 0 when the page changed since the chat
+  TOGGLE_PANEL: { open: boolean }
+  SHOW_FLOAT_AGAIN: { visible: boolean }
+}
+
+export type ResponseOf<T extends MsgType> = MsgResponseMap[T]
+
+/**
+ * Error codes surfaced to RPC callers
+ * - timeout: no answer within the deadline
+ * - no-receiver: no content script listening in the target tab/frame
+ * - unscriptable: the page does not allow script injection (chrome://, Web Store, ...)
+ * - handler-error: the content script handler threw
+ * - bad-response: the receiver answered with something that is not a MsgResponse
+ * - transport: any other chrome.runtime messaging failure
+ */
+export type RpcErrorCode = 'timeout' | 'no-receiver' | 'unscriptable' | 'handler-error' | 'bad-response' | 'transport'
+
+export type RpcError = {
+  code: RpcErrorCode
+  message: string
+}
+
+/**
+ * Envelope sent back by the content script for every Msg
+ */
+export type MsgResponse<T extends MsgType = MsgType> =
+  | { ok: true; data: ResponseOf<T> }
+  | { ok: false; error: RpcError }
+
+const MSG_TYPES: readonly MsgType[] = [
+  'PING',
+  'SUMMARIZE_PAGE',
+  'SUMMARIZE_SELECTION',
+  'EXPLAIN_SELECTION',
+  'TRANSLATE_SELECTION',
+  'TRANSLATE_PAGE',
+  'GET_PAGE_CONTENT',
+  'OPEN_COMPARE_CHAT',
+  'RESUME_PAGE_CHAT',
+  'TOGGLE_PANEL',
+  'SHOW_FLOAT_AGAIN',
+]
+
+/**
+ * Runtime guard for messages arriving over chrome.runtime
+ */
+export function isMsg(value: unknown): value is Msg {
+  if (!value || typeof value !== 'object') return false
+  const type = (value as { type?: unknown }).type
+  return typeof type === 'string' && (MSG_TYPES as readonly string[]).includes(type)
+}
+
+/**
+ * Runtime guard for replies arriving over chrome.runtime
+ */
+export function isMsgResponse(value: unknown): value is MsgResponse {
+  if (!value || typeof value !== 'object') return false
+  const res = value as { ok?: unknown; data?: unknown; error?: unknown }
+  return res.ok === true ? 'data' in res : res.ok === false && !!res.error && typeof res.error === 'object'
+}
@@ -0,0 +1,23 @@
+/**
+ * Resume Chat - Popup request to continue a stored page chat
+ *
+ * The popup sends the chat's URL to the background, which focuses the tab
+ * showing that page (or opens it) and asks the content script to restore the
+ * conversation in the side panel (RESUME_PAGE_CHAT). Opening or focusing a
+ * tab usually closes the popup; failures are also shown on the toolbar icon.
+ */
+
+export const RESUME_CHAT_REQUEST = 'RESUME_CHAT'
+
+// Runtime message, popup → background
+export type ResumeChatRequest = {
+  type: typeof RESUME_CHAT_REQUEST
+  url: string             // Page the chat is stored for (its PageChatHistory key)
+}
+
+export type ResumeChatReply = { ok: true; messages: number } | { ok: false; error: string }
+
+export function isResumeChatRequest(x: unknown): x is ResumeChatRequest {
+  return !!x && typeof x === 'object' && (x as { type?: unknown }).type === RESUME_CHAT_REQUEST
+    && typeof (x as { url?: unknown }).url === 'string'
+}
@@ -0,0 +1,60 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { COMPARE_TABS_REQUEST } from './compareTabs'
+import { RESUME_CHAT_REQUEST } from './resumeChat'
+import { sendToBackground } from './rpc'
+
+type Reply = (reply?: unknown) => void
+
+/**
+ * Stub chrome.runtime.sendMessage; `answer` gets the request and the reply callback
+ */
+function stubRuntime(answer: (req: unknown, reply: Reply, runtime: { lastError?: { message: string } }) => void) {
+  const runtime: { lastError?: { message: string }; sendMessage: (req: unknown, reply: Reply) => void } = {
+    lastError: undefined,
+    sendMessage: (req, reply) => answer(req, reply, runtime),
+  }
+  vi.stubGlobal('chrome', { runtime })
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.useRealTimers()
+})
+
+describe('sendToBackground', () => {
+  it('delivers the typed reply', async () => {
+    stubRuntime((_req, reply) => reply({ ok: true, messages: 4 }))
+    const res = await sendToBackground({ type: RESUME_CHAT_REQUEST, url: 'https://example.com/' })
+    expect(res).toEqual({ ok: true, data: { ok: true, messages: 4 } })
+  })
+
+  it('passes failed replies through as data', async () => {
+    stubRuntime((_req, reply) => reply({ ok: false, error: 'Choose 2 to 4 tabs to compare' }))
+    const res = await sendToBackground({ type: COMPARE_TABS_REQUEST, tabIds: [1], hostTabId: 1 })
+    expect(res).toEqual({ ok: true, data: { ok: false, error: 'Choose 2 to 4 tabs to compare' } })
+  })
+
+  it('reports chrome.runtime.lastError as a transport error', async () => {
+    stubRuntime((_req, reply, runtime) => {
+      runtime.lastError = { message: 'Could not establish connection. Receiving end does not exist.' }
+      reply(undefined)
+      runtime.lastError = undefined
+    })
+    const res = await sendToBackground({ type: RESUME_CHAT_REQUEST, url: 'https://example.com/' })
+    expect(res).toEqual({ ok: false, error: { code: 'transport', message: 'Could not establish connection. Receiving end does not exist.' } })
+  })
+
+  it('reports a missing reply as bad-response', async () => {
+    stubRuntime((_req, reply) => reply(undefined))
+    const res = await sendToBackground({ type: RESUME_CHAT_REQUEST, url: 'https://example.com/' })
+    expect(res).toMatchObject({ ok: false, error: { code: 'bad-response' } })
+  })
+
+  it('times out when the background never answers', async () => {
+    vi.useFakeTimers()
+    stubRuntime(() => {})
+    const pending = sendToBackground({ type: RESUME_CHAT_REQUEST, url: 'https://example.com/' }, 1000)
+    await vi.advanceTimersByTimeAsync(1000)
+    await expect(pending).resolves.toEqual({ ok: false, error: { code: 'timeout', message: 'No response to RESUME_CHAT within 1s' } })
+  })
+})
@@ -0,0 +1,249 @@
+/**
+ * Typed RPC over chrome.tabs messaging, and from extension pages to the
+ * background worker over chrome.runtime (sendToBackground)
+ *
+ * Wraps chrome.tabs.sendMessage with:
+ * - Per-message request/response types (see MsgResponseMap)
+ * - Timeouts, so callers never hang on a tab that never answers
+ * - Error objects instead of a silently discarded chrome.runtime.lastError
+ * - Automatic content script injection (chrome.scripting) and retry for tabs
+ *   that were open before the extension was installed or reloaded
+ */
+
+import { COMPARE_TABS_REQUEST, type CompareTabsReply, type CompareTabsRequest } from './compareTabs'
+import { isMsgResponse, type MsgOf, type MsgResponse, type MsgType, type RpcError, type RpcErrorCode } from './messaging'
+import { RESUME_CHAT_REQUEST, type ResumeChatReply, type ResumeChatRequest } from './resumeChat'
+
+export type SendOptions = {
+  frameId?: number      // Target frame (defaults to the top frame)
+  timeoutMs?: number    // Overrides the per-message default
+  inject?: boolean      // Inject the content script when nobody is listening (default true)
+  retries?: number      // Attempts after injection (default 3)
+}
+
+/**
+ * Default deadlines per message type
+ * AI actions wait for generation to finish, which can include a model download.
+ */
+const DEFAULT_TIMEOUTS: Record<MsgType, number> = {
+  PING: 1000,
+  SHOW_FLOAT_AGAIN: 3000,
+  TOGGLE_PANEL: 5 * 60_000,
+  SUMMARIZE_PAGE: 5 * 60_000,
+  SUMMARIZE_SELECTION: 5 * 60_000,
+  EXPLAIN_SELECTION: 5 * 60_000,
+  TRANSLATE_SELECTION: 5 * 60_000,
+  TRANSLATE_PAGE: 10_000,
+  GET_PAGE_CONTENT: 60_000,   // PDFs are downloaded and parsed
+  OPEN_COMPARE_CHAT: 10_000,
+  RESUME_PAGE_CHAT: 5 * 60_000,  // Summarizes the page when its summary is not cached
+}
+
+const RETRY_DELAY_MS = 200
+
+function fail<T extends MsgType>(code: RpcErrorCode, message: string): MsgResponse<T> {
+  return { ok: false, error: { code, message } }
+}
+
+/**
+ * Chrome reports a missing listener as "Could not establish connection.
+ * Receiving end does not exist."
+ */
+function isNoReceiverError(message: string): boolean {
+  return /receiving end does not exist|could not establish connection/i.test(message)
+}
+
+/**
+ * Send a single message and wait for the reply or the deadline
+ */
+function sendOnce<T extends MsgType>(tabId: number, msg: MsgOf<T>, frameId: number, timeoutMs: number): Promise<MsgResponse<T>> {
+  return new Promise((resolve) => {
+    let settled = false
+    const settle = (res: MsgResponse<T>) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      resolve(res)
+    }
+
+    const timer = setTimeout(() => {
+      settle(fail('timeout', `No response to ${msg.type} within ${Math.round(timeoutMs / 1000)}s`))
+    }, timeoutMs)
+
+    try {
+      chrome.tabs.sendMessage(tabId, msg, { frameId }, (res: unknown) => {
+        const err = chrome.runtime.lastError
+        if (err) {
+          const message = err.message || 'Unknown messaging error'
+          settle(fail(isNoReceiverError(message) ? 'no-receiver' : 'transport', message))
+          return
+        }
+        if (!isMsgResponse(res)) {
+          settle(fail('bad-response', `Unexpected response to ${msg.type}`))
+          return
+        }
+        settle(res as MsgResponse<T>)
+      })
+    } catch (e) {
+      settle(fail('transport', e instanceof Error ? e.message : String(e)))
+    }
+  })
+}
+
+/**
+ * Inject the manifest's content scripts into one frame of a tab
+ *
+ * @returns null on success, or the error that prevented injection
+ */
+export async function injectContentScript(tabId: number, frameId = 0): Promise<RpcError | null> {
+  const contentScripts = chrome.runtime.getManifest().content_scripts ?? []
+  const target = { tabId, frameIds: [frameId] }
+
+  try {
+    for (const cs of contentScripts) {
+      if (cs.css?.length) {
+        await chrome.scripting.insertCSS({ target, files: cs.css })
+      }
+      if (cs.js?.length) {
+        await chrome.scripting.executeScript({ target, files: cs.js })
+      }
+    }
+    console.log(`[RPC] Injected content script into tab ${tabId} (frame ${frameId})`)
+    return null
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e)
+    console.warn('[RPC] Content script injection failed:', message)
+    return { code: 'unscriptable', message }
+  }
+}
+
+/**
+ * Send a typed message to a tab's content script
+ *
+ * Never throws: failures are returned as `{ ok: false, error }`.
+ *
+ * @example
+ * ```ts
+ * const res = await sendToTab(tabId, { type: 'SUMMARIZE_PAGE' })
+ * if (res.ok) console.log(res.data.summary)
+ * else console.warn(res.error.code, res.error.message)
+ * ```
+ */
+export async function sendToTab<T extends MsgType>(tabId: number, msg: MsgOf<T>, opts: SendOptions = {}): Promise<MsgResponse<T>> {
+  const frameId = opts.frameId ?? 0
+  const timeoutMs = opts.timeoutMs ?? DEFAULT_TIMEOUTS[msg.type]
+
+  const first = await sendOnce(tabId, msg, frameId, timeoutMs)
+  if (first.ok || first.error.code !== 'no-receiver' || opts.inject === false) {
+    return first
+  }
+
+  const injectError = await injectContentScript(tabId, frameId)
+  if (injectError) {
+    return { ok: false, error: injectError }
+  }
+
+  // The injected loader imports the script asynchronously, so the listener
+  // may not be registered on the very first attempt
+  let last: MsgResponse<T> = first
+  const retries = opts.retries ?? 3
+  for (let attempt = 1; attempt <= retries; attempt++) {
+    await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * attempt))
+    last = await sendOnce(tabId, msg, frameId, timeoutMs)
+    if (last.ok || last.error.code !== 'no-receiver') break
+  }
+  return last
+}
+
+/**
+ * Send a typed message to the active tab of the current window
+ */
+export async function sendToActiveTab<T extends MsgType>(msg: MsgOf<T>, opts: SendOptions = {}): Promise<MsgResponse<T>> {
+  try {
+    const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+    if (!tab?.id) {
+      return fail('transport', 'No active tab')
+    }
+    return await sendToTab(tab.id, msg, opts)
+  } catch (e) {
+    return fail('transport', e instanceof Error ? e.message : String(e))
+  }
+}
+
+// ============================================================================
+// Background Requests
+// ============================================================================
+
+/**
+ * Requests extension pages (the popup) send to the background worker, and
+ * the reply to each
+ */
+type BackgroundRequestMap = {
+  [COMPARE_TABS_REQUEST]: { request: CompareTabsRequest; reply: CompareTabsReply }
+  [RESUME_CHAT_REQUEST]: { request: ResumeChatRequest; reply: ResumeChatReply }
+}
+
+export type BackgroundRequestType = keyof BackgroundRequestMap
+
+export type BackgroundRequest<T extends BackgroundRequestType> = BackgroundRequestMap[T]['request']
+
+/**
+ * Envelope for a background reply; the reply itself may still report failure
+ */
+export type BackgroundResponse<T extends BackgroundRequestType> =
+  | { ok: true; data: BackgroundRequestMap[T]['reply'] }
+  | { ok: false; error: RpcError }
+
+/**
+ * Default deadlines per background request
+ * Both wait on content scripts: reading every compared tab, or loading the
+ * page and summarizing it before the chat is restored.
+ */
+const BACKGROUND_TIMEOUTS: Record<BackgroundRequestType, number> = {
+  [COMPARE_TABS_REQUEST]: 2 * 60_000,
+  [RESUME_CHAT_REQUEST]: 6 * 60_000,
+}
+
+/**
+ * Send a typed request to the background worker
+ *
+ * Never throws: messaging failures, a missing reply and the deadline are
+ * returned as `{ ok: false, error }`.
+ *
+ * @example
+ * ```ts
+ * const res = await sendToBackground({ type: RESUME_CHAT_REQUEST, url })
+ * if (!res.ok) console.warn(res.error.code, res.error.message)
+ * else if (!res.data.ok) console.warn(res.data.error)
+ * ```
+ */
+export function sendToBackground<T extends BackgroundRequestType>(req: BackgroundRequest<T> & { type: T }, timeoutMs = BACKGROUND_TIMEOUTS[req.type]): Promise<BackgroundResponse<T>> {
+  return new Promise((resolve) => {
+    let settled = false
+    const settle = (res: BackgroundResponse<T>) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timer)
+      resolve(res)
+    }
+
+    const timer = setTimeout(() => {
+      settle({ ok: false, error: { code: 'timeout', message: `No response to ${req.type} within ${Math.round(timeoutMs / 1000)}s` } })
+    }, timeoutMs)
+
+    try {
+      chrome.runtime.sendMessage(req, (reply: BackgroundRequestMap[T]['reply'] | undefined) => {
+        const err = chrome.runtime.lastError
+        if (err) {
+          settle({ ok: false, error: { code: 'transport', message: err.message || 'Unknown messaging error' } })
+        } else if (!reply || typeof reply !== 'object') {
+          settle({ ok: false, error: { code: 'bad-response', message: `No reply to ${req.type} from the background` } })
+        } else {
+          settle({ ok: true, data: reply })
+        }
+      })
+    } catch (e) {
+      settle({ ok: false, error: { code: 'transport', message: e instanceof Error ? e.message : String(e) } })
+    }
+  })
+}
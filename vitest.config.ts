@@ -0,0 +1,11 @@
+import { defineConfig } from 'vitest/config'
+
+// Unit tests run without the CRX plugin; DOM tests opt into jsdom per file
+// Content script tests live in src/__tests__/content: src/content/* is a
+// web-accessible resource in the manifest, so test files there would ship
+export default defineConfig({
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
+})